@@ -0,0 +1,181 @@
+import { EditorView } from '@codemirror/view';
+import { Component, Events, View } from 'obsidian';
+import { FABModeConfig } from './features/fab-modes';
+import MobilePlugin from './main';
+import { ContextBinding, ContextType, ToolbarConfig } from './settings';
+import { GestureInput, GestureMatch } from './utils/gesture-handler';
+
+/**
+ * Version of the public API. Bumped whenever a change could break plugins
+ * built against an earlier version.
+ */
+export const MOBILE_API_VERSION = 1;
+
+/**
+ * A toolbar context contributed by another plugin.
+ *
+ * @property id - Context id used in bindings; prefix it with the plugin id
+ *   to avoid clashes, e.g. `my-plugin:citation`.
+ * @property name - Display name shown in the settings.
+ * @property detect - Whether the context applies at a document position.
+ */
+export interface ContextDetector {
+  id: ContextType;
+  name: string;
+  detect(view: EditorView, pos: number): boolean;
+}
+
+/** Where a gesture was drawn. */
+export type GestureSource = 'fab' | 'editor';
+
+/**
+ * Events other plugins can subscribe to, with their arguments.
+ */
+export interface MobileAPIEvents {
+  'gesture-match': [match: GestureMatch, source: GestureSource];
+  'gesture-unknown': [input: GestureInput, source: GestureSource];
+  'fab-press': [view: View];
+  'fab-longpress': [view: View];
+  'fab-mode-change': [mode: string | null];
+  'keyboard-open': [height: number];
+  'keyboard-close': [];
+}
+
+/**
+ * Public API exposed as `api` on the plugin instance, for other plugins to
+ * contribute FAB modes, toolbar contexts and toolbars, and to follow
+ * gesture, FAB and keyboard events.
+ *
+ * Everything registered is tied to an owner component, usually the calling
+ * plugin, and removed again when that component unloads. Registrations are
+ * not saved to this plugin's settings.
+ *
+ * @example
+ * const api = app.plugins.getPlugin('mobile')?.api;
+ * if (api?.version === 1) {
+ *   api.on(this, 'gesture-match', match => console.log(match.gesture.name));
+ * }
+ */
+export class MobilePluginAPI {
+  readonly version = MOBILE_API_VERSION;
+  private events = new Events();
+  private fabModes: FABModeConfig[] = [];
+  private detectors: ContextDetector[] = [];
+  private toolbars: ToolbarConfig[] = [];
+  private bindings: ContextBinding[] = [];
+
+  constructor(private plugin: MobilePlugin) {}
+
+  /**
+   * Adds a FAB mode. Switch into it with `toggleFABMode` or `setFABMode`;
+   * unlike modes from the settings it gets no toggle command of its own.
+   */
+  registerFABMode(owner: Component, mode: FABModeConfig): void {
+    this.fabModes.push(mode);
+    this.plugin.fabManager?.refresh();
+    owner.register(() => {
+      this.fabModes.remove(mode);
+      if (this.getFABMode() === mode.id) this.setFABMode(null);
+      this.plugin.fabManager?.refresh();
+    });
+  }
+
+  /**
+   * Adds a toolbar context. Users can bind toolbars to it like any built-in
+   * context, and gestures can be limited to it.
+   */
+  registerContextDetector(owner: Component, detector: ContextDetector): void {
+    this.detectors.push(detector);
+    this.plugin.refreshToolbars();
+    owner.register(() => {
+      this.detectors.remove(detector);
+      this.plugin.refreshToolbars();
+    });
+  }
+
+  /**
+   * Adds a toolbar and shows it in the given contexts, unless the user has
+   * bound their own toolbars there. A toolbar in the user's library with
+   * the same id takes its place, so editing it creates a customized copy.
+   */
+  registerDefaultToolbar(
+    owner: Component,
+    toolbar: ToolbarConfig,
+    contexts: ContextType[],
+  ): void {
+    const bindings = contexts.map(contextType => ({
+      contextType,
+      toolbarId: toolbar.id,
+    }));
+    this.toolbars.push(toolbar);
+    this.bindings.push(...bindings);
+    this.plugin.refreshToolbars();
+    owner.register(() => {
+      this.toolbars.remove(toolbar);
+      bindings.forEach(binding => this.bindings.remove(binding));
+      this.plugin.refreshToolbars();
+    });
+  }
+
+  /**
+   * Subscribes to an event until the owner unloads.
+   */
+  on<K extends keyof MobileAPIEvents>(
+    owner: Component,
+    name: K,
+    callback: (...args: MobileAPIEvents[K]) => void,
+  ): void {
+    owner.registerEvent(
+      this.events.on(name, callback as (...data: unknown[]) => unknown),
+    );
+  }
+
+  /** Whether the on-screen keyboard is open. */
+  isKeyboardOpen(): boolean {
+    return this.plugin.keyboard?.isOpen ?? false;
+  }
+
+  getFABMode(): string | null {
+    return this.plugin.fabManager?.getMode() ?? null;
+  }
+
+  /**
+   * Switches the FAB into the mode with the given id, or back to normal
+   * with null.
+   */
+  setFABMode(id: string | null): void {
+    this.plugin.fabManager?.setMode(id);
+  }
+
+  toggleFABMode(id: string): void {
+    this.setFABMode(this.getFABMode() === id ? null : id);
+  }
+
+  /** Modes registered through the API. */
+  get registeredFABModes(): readonly FABModeConfig[] {
+    return this.fabModes;
+  }
+
+  /** Context detectors registered through the API. */
+  get contextDetectors(): readonly ContextDetector[] {
+    return this.detectors;
+  }
+
+  /** Default toolbars registered through the API. */
+  get defaultToolbars(): readonly ToolbarConfig[] {
+    return this.toolbars;
+  }
+
+  /** Bindings of the default toolbars registered through the API. */
+  get defaultBindings(): readonly ContextBinding[] {
+    return this.bindings;
+  }
+
+  /** Notifies subscribers; only used by this plugin. */
+  trigger<K extends keyof MobileAPIEvents>(
+    name: K,
+    ...args: MobileAPIEvents[K]
+  ): void {
+    this.events.trigger(name, ...args);
+  }
+}
@@ -0,0 +1,170 @@
+import { syntaxTree } from '@codemirror/language';
+import { EditorView } from '@codemirror/view';
+import { App, editorInfoField, getAllTags, normalizePath } from 'obsidian';
+import { ContextDetector } from '../api';
+import MobilePlugin from '../main';
+
+/**
+ * What a context rule looks at.
+ * - syntax-node: names of the syntax nodes at the cursor, as a pattern
+ * - line: text of the current line, as a pattern
+ * - property: a frontmatter property of the note, optionally with a value
+ * - tag: a tag of the note, including nested tags
+ * - folder: the note's folder, including subfolders
+ * - callout: type of the callout the cursor is inside
+ */
+export type ContextRuleType =
+  'syntax-node' | 'line' | 'property' | 'tag' | 'folder' | 'callout';
+
+export const contextRuleDesc: Record<ContextRuleType, [string, string]> = {
+  'syntax-node': ['Syntax node', 'Pattern for node names, e.g. footnote'],
+  line: ['Line', 'Pattern for the current line, e.g. ^\\d+\\.'],
+  property: ['Property', 'Property name, or name: value'],
+  tag: ['Tag', 'Tag of the note, e.g. project'],
+  folder: ['Folder', 'Folder of the note, e.g. Journal'],
+  callout: ['Callout', 'Callout type, e.g. todo, or empty for any'],
+};
+
+export interface ContextRule {
+  type: ContextRuleType;
+  value: string;
+}
+
+/**
+ * A context type defined by the user from rules, which toolbars and
+ * gestures can be bound to like a built-in context.
+ *
+ * @property id - Identifier used in context bindings.
+ * @property name - Display name.
+ * @property match - Whether all rules or any rule must match.
+ * @property rules - Conditions checked at the cursor.
+ */
+export interface CustomContext {
+  id: string;
+  name: string;
+  match: 'all' | 'any';
+  rules: ContextRule[];
+}
+
+/**
+ * Detectors for the user's custom contexts, in the same form as the ones
+ * registered by other plugins.
+ */
+export function customContextDetectors(
+  plugin: MobilePlugin,
+): ContextDetector[] {
+  return plugin.settings.customContexts.map(context => ({
+    id: context.id,
+    name: context.name,
+    detect: (view, pos) => matchesCustomContext(plugin.app, view, pos, context),
+  }));
+}
+
+/**
+ * Whether a custom context applies at a position. A context without rules
+ * never applies.
+ */
+export function matchesCustomContext(
+  app: App,
+  view: EditorView,
+  pos: number,
+  context: CustomContext,
+): boolean {
+  if (context.rules.length === 0) return false;
+  const matches = (rule: ContextRule) => matchesRule(app, view, pos, rule);
+  return context.match === 'any'
+    ? context.rules.some(matches)
+    : context.rules.every(matches);
+}
+
+function matchesRule(
+  app: App,
+  view: EditorView,
+  pos: number,
+  rule: ContextRule,
+): boolean {
+  const value = rule.value.trim();
+  switch (rule.type) {
+    case 'syntax-node': {
+      const pattern = toPattern(value);
+      if (!pattern) return false;
+      let found = false;
+      syntaxTree(view.state).iterate({
+        from: pos,
+        to: pos,
+        enter: node => {
+          // Nodes ending at the position are behind the cursor, not around it
+          if (node.to > pos && pattern.test(node.type.name)) found = true;
+          return !found;
+        },
+      });
+      return found;
+    }
+    case 'line': {
+      const pattern = toPattern(value);
+      return Boolean(pattern?.test(view.state.doc.lineAt(pos).text));
+    }
+    case 'callout': {
+      const type = calloutAt(view, pos);
+      return type !== null && (!value || type === value.toLowerCase());
+    }
+  }
+
+  const file = view.state.field(editorInfoField, false)?.file;
+  if (!file || !value) return false;
+  switch (rule.type) {
+    case 'property': {
+      const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter) return false;
+      const separator = value.indexOf(':');
+      if (separator === -1) return value in frontmatter;
+      const key = value.slice(0, separator).trim();
+      const expected = value
+        .slice(separator + 1)
+        .trim()
+        .toLowerCase();
+      const actual: unknown = frontmatter[key];
+      return (Array.isArray(actual) ? actual : [actual]).some(
+        item => String(item).toLowerCase() === expected,
+      );
+    }
+    case 'tag': {
+      const cache = app.metadataCache.getFileCache(file);
+      const tag = `#${value.replace(/^#/, '').toLowerCase()}`;
+      return (cache ? (getAllTags(cache) ?? []) : []).some(t => {
+        const lower = t.toLowerCase();
+        return lower === tag || lower.startsWith(`${tag}/`);
+      });
+    }
+    case 'folder': {
+      const folder = normalizePath(value);
+      return file.path.startsWith(`${folder}/`);
+    }
+  }
+  return false;
+}
+
+/** Compiles a user pattern; invalid or empty patterns never match. */
+function toPattern(value: string): RegExp | null {
+  if (!value) return null;
+  try {
+    return new RegExp(value, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Type of the callout whose block contains the position, found by walking
+ * up the quoted lines to the `[!type]` header.
+ */
+function calloutAt(view: EditorView, pos: number): string | null {
+  const { doc } = view.state;
+  for (let n = doc.lineAt(pos).number; n >= 1; n--) {
+    const text = doc.line(n).text;
+    if (!/^\s*>/.test(text)) return null;
+    const header = /^\s*(?:>\s*)+\[!([^\]]+)\]/.exec(text);
+    if (header) return header[1].toLowerCase();
+  }
+  return null;
+}
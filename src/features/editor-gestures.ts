@@ -0,0 +1,229 @@
+import { App, Component, MarkdownView, View } from 'obsidian';
+import MobilePlugin from '../main';
+import { GestureHandler, Offset } from '../utils/gesture-handler';
+import { NewGesture } from './fab';
+import { recordGestureMatch, recordUnrecognizedGesture } from './gesture-stats';
+
+export type EditorGestureMode = 'off' | 'edge' | 'long-press';
+
+// Two fingers held this long without moving open the drawing overlay
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_TOLERANCE_PX = 10;
+
+/**
+ * Lets gestures be drawn in the editor instead of only from the FAB.
+ *
+ * Two surfaces are available, chosen in settings:
+ * - Edge: a thin strip along one edge of every markdown view; strokes that
+ *   start inside it are recorded as gestures
+ * - Long-press: holding two fingers still in the editor opens a temporary
+ *   full-screen overlay to draw on; tapping it dismisses it
+ *
+ * Both reuse the FAB's gesture set, trail and success animation. Touches
+ * outside the strip, and two-finger touches that move (scroll, pinch) are
+ * left alone so text selection and scrolling keep working.
+ *
+ * @extends Component
+ */
+export class EditorGestureSurface extends Component {
+  private edgeZones: Map<View, { el: HTMLElement; handler: GestureHandler }> =
+    new Map();
+  private edgeZoneLayout = '';
+  private overlay: { el: HTMLElement; handler: GestureHandler } | null = null;
+  private longPressTimer: number | null = null;
+  private longPressStart: Offset[] = [];
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+  ) {
+    super();
+  }
+
+  onload(): void {
+    this.registerEvent(
+      this.app.workspace.on('layout-change', this.ensureEdgeZones),
+    );
+    this.app.workspace.onLayoutReady(this.ensureEdgeZones);
+
+    const doc = window.activeDocument;
+    this.registerDomEvent(doc, 'touchstart', this.onTouchStart, {
+      passive: true,
+    });
+    this.registerDomEvent(doc, 'touchmove', this.onTouchMove, {
+      passive: true,
+    });
+    this.registerDomEvent(doc, 'touchend', this.cancelLongPress);
+    this.registerDomEvent(doc, 'touchcancel', this.cancelLongPress);
+  }
+
+  onunload(): void {
+    this.cancelLongPress();
+    this.closeOverlay();
+    this.removeEdgeZones();
+  }
+
+  /**
+   * Picks up the latest gesture settings, rebuilding the edge zones only
+   * when their placement changed
+   */
+  refresh(): void {
+    const { settings } = this.plugin;
+    const layout = `${settings.editorGestureSurface}-${settings.editorGestureEdge}-${settings.editorGestureEdgeWidth}`;
+    if (layout !== this.edgeZoneLayout) this.removeEdgeZones();
+    this.ensureEdgeZones();
+    if (settings.editorGestureSurface !== 'long-press') this.closeOverlay();
+
+    const handlers = [...this.edgeZones.values()].map(zone => zone.handler);
+    if (this.overlay) handlers.push(this.overlay.handler);
+    handlers.forEach(handler =>
+      handler.update(
+        settings.gestureCommands,
+        settings.gestureThreshold,
+        settings.gestureStrokeTimeout,
+      ),
+    );
+  }
+
+  private ensureEdgeZones = (): void => {
+    const { editorGestureSurface, editorGestureEdge, editorGestureEdgeWidth } =
+      this.plugin.settings;
+    this.edgeZoneLayout = `${editorGestureSurface}-${editorGestureEdge}-${editorGestureEdgeWidth}`;
+    if (editorGestureSurface !== 'edge') return;
+
+    // Drop the zones of views that were closed or replaced
+    const views = new Set(
+      this.app.workspace.getLeavesOfType('markdown').map(leaf => leaf.view),
+    );
+    this.edgeZones.forEach(({ el, handler }, view) => {
+      if (views.has(view) && el.isConnected) return;
+      handler.destroy();
+      el.remove();
+      this.edgeZones.delete(view);
+    });
+
+    views.forEach(view => {
+      if (!(view instanceof MarkdownView) || this.edgeZones.has(view)) return;
+      const el = view.contentEl.createDiv({
+        cls: ['mobile-gesture-edge', `mod-${editorGestureEdge}`],
+      });
+      el.setCssStyles({ width: `${editorGestureEdgeWidth}px` });
+      // Keep the sidebar swipe from reacting to strokes in the strip
+      el.addEventListener('touchstart', e => e.stopPropagation());
+      this.edgeZones.set(view, { el, handler: this.createHandler(el, view) });
+    });
+  };
+
+  private removeEdgeZones(): void {
+    this.edgeZones.forEach(({ el, handler }) => {
+      handler.destroy();
+      el.remove();
+    });
+    this.edgeZones.clear();
+  }
+
+  private onTouchStart = (e: TouchEvent): void => {
+    if (
+      this.plugin.settings.editorGestureSurface !== 'long-press' ||
+      this.overlay
+    )
+      return;
+    if (e.touches.length !== 2) {
+      this.cancelLongPress();
+      return;
+    }
+    const target = e.target;
+    if (!(target instanceof HTMLElement) || !target.closest('.cm-editor'))
+      return;
+
+    this.longPressStart = Array.from(e.touches).map(
+      t => new Offset(t.clientX, t.clientY),
+    );
+    this.longPressTimer = window.setTimeout(() => {
+      this.longPressTimer = null;
+      this.openOverlay();
+    }, LONG_PRESS_MS);
+  };
+
+  private onTouchMove = (e: TouchEvent): void => {
+    if (this.longPressTimer === null) return;
+    const moved = Array.from(e.touches).some(
+      (t, i) =>
+        !this.longPressStart[i] ||
+        this.longPressStart[i].distanceTo(new Offset(t.clientX, t.clientY)) >
+          LONG_PRESS_TOLERANCE_PX,
+    );
+    if (moved) this.cancelLongPress();
+  };
+
+  private cancelLongPress = (): void => {
+    if (this.longPressTimer === null) return;
+    window.clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+  };
+
+  private openOverlay(): void {
+    const el = window.activeDocument.body.createDiv({
+      cls: 'mobile-gesture-surface',
+    });
+    el.createDiv({
+      cls: 'mobile-gesture-surface-hint',
+      text: 'Draw a gesture',
+    });
+    const handler = this.createHandler(el);
+    // A tap without drawing dismisses the overlay. Mouse strokes end in a
+    // click too, so skip those and taps that belong to a multi-stroke gesture.
+    let down = new Offset(0, 0);
+    el.addEventListener('pointerdown', e => {
+      down = new Offset(e.clientX, e.clientY);
+    });
+    el.addEventListener('click', e => {
+      const moved = down.distanceTo(new Offset(e.clientX, e.clientY));
+      if (moved > LONG_PRESS_TOLERANCE_PX || handler.isPending()) return;
+      this.closeOverlay();
+    });
+    this.overlay = { el, handler };
+    this.plugin.hapticFeedback(20);
+  }
+
+  private closeOverlay(): void {
+    if (!this.overlay) return;
+    this.overlay.handler.destroy();
+    this.overlay.el.remove();
+    this.overlay = null;
+  }
+
+  /**
+   * Creates a handler for a surface. Gestures are scoped to the given view,
+   * or to the active view for the overlay.
+   */
+  private createHandler(el: HTMLElement, view?: View): GestureHandler {
+    const { settings } = this.plugin;
+    return new GestureHandler(
+      this.app,
+      el,
+      settings.gestureCommands,
+      (input, _gesture, candidates) => {
+        this.closeOverlay();
+        recordUnrecognizedGesture(this.plugin, input, candidates);
+        this.plugin.api.trigger('gesture-unknown', input, 'editor');
+        new NewGesture(this.app, this.plugin, input).then(g =>
+          this.plugin.settings.showCommandConfirmation
+            ? g.open()
+            : g.openCommandSelection(),
+        );
+      },
+      false,
+      settings.gestureThreshold,
+      settings.gestureStrokeTimeout,
+    )
+      .setMovesElement(false)
+      .setContextProvider(() => this.plugin.getGestureContext(view))
+      .onMatch(match => {
+        // Leave the overlay up long enough to show the success flash
+        window.setTimeout(() => this.closeOverlay(), 300);
+        recordGestureMatch(this.plugin, match);
+        this.plugin.api.trigger('gesture-match', match, 'editor');
+      });
+  }
+}
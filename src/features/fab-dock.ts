@@ -0,0 +1,295 @@
+import { App } from 'obsidian';
+import MobilePlugin from '../main';
+import { MobilePluginSettings } from '../settings';
+import { Offset } from '../utils/gesture-handler';
+
+/**
+ * Where the FAB can be docked inside its view. The bottom edge only has
+ * corners so the FAB never sits on top of the toolbar.
+ */
+export type FABDock =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+export const DEFAULT_FAB_DOCK: FABDock = 'bottom-right';
+
+/** Dock positions as fractions of the view's width and height. */
+const dockAnchors: Record<FABDock, [number, number]> = {
+  'top-left': [0, 0],
+  top: [0.5, 0],
+  'top-right': [1, 0],
+  left: [0, 0.5],
+  right: [1, 0.5],
+  'bottom-left': [0, 1],
+  'bottom-right': [1, 1],
+};
+
+const mirroredDocks: Record<FABDock, FABDock> = {
+  'top-left': 'top-right',
+  top: 'top',
+  'top-right': 'top-left',
+  left: 'right',
+  right: 'left',
+  'bottom-left': 'bottom-right',
+  'bottom-right': 'bottom-left',
+};
+
+/** How long the FAB has to be held still before it can be dragged. */
+const DOCK_HOLD_MS = 1000;
+/** Movement that turns a hold into a gesture instead. */
+const HOLD_TOLERANCE = 10;
+
+/**
+ * Key of the dock position in the device's local storage. Portrait and
+ * landscape are remembered separately.
+ */
+function dockStorageKey(): string {
+  const orientation =
+    window.innerWidth > window.innerHeight ? 'landscape' : 'portrait';
+  return `mobile-plugin-fab-dock-${orientation}`;
+}
+
+/**
+ * The dock position for this device and orientation. Positions are stored
+ * for right-handed use and mirrored in left-handed mode.
+ */
+export function loadFABDock(app: App, settings: MobilePluginSettings): FABDock {
+  const stored = app.loadLocalStorage(dockStorageKey()) as FABDock | null;
+  const dock = stored && stored in dockAnchors ? stored : DEFAULT_FAB_DOCK;
+  return settings.leftHandedMode ? mirroredDocks[dock] : dock;
+}
+
+export function saveFABDock(
+  app: App,
+  settings: MobilePluginSettings,
+  dock: FABDock,
+): void {
+  app.saveLocalStorage(
+    dockStorageKey(),
+    settings.leftHandedMode ? mirroredDocks[dock] : dock,
+  );
+}
+
+/**
+ * Side of the view the FAB covers at the bottom, which the toolbar keeps
+ * clear.
+ */
+export function fabToolbarSide(dock: FABDock): 'left' | 'right' | null {
+  if (dock === 'bottom-left') return 'left';
+  if (dock === 'bottom-right') return 'right';
+  return null;
+}
+
+/**
+ * Lets the FAB be moved by holding it still and then dragging it. On
+ * release it snaps to the nearest dock position, which is remembered for
+ * this device.
+ *
+ * Other FAB interactions can check `isHolding` and `isDocking` to step
+ * aside.
+ */
+export class FABDocker {
+  private holdTimer: number | null = null;
+  private start = new Offset(0, 0);
+  private pressed = false;
+  private holding = false;
+  private docking = false;
+  private dockedAt = 0;
+  private targetsEl: HTMLElement | null = null;
+  private dockStartCallback?: () => void;
+  private dockedCallback?: () => void;
+
+  constructor(
+    private app: App,
+    private plugin: MobilePlugin,
+    private fabEl: HTMLElement,
+    private containerEl: HTMLElement,
+  ) {
+    this.fabEl.addEventListener('touchstart', this.onPress);
+    this.fabEl.addEventListener('mousedown', this.onPress);
+    this.apply();
+  }
+
+  /**
+   * Registers a callback invoked when dragging starts, so gestures and
+   * menus started by the same press can be cancelled.
+   */
+  onDockStart(cb: () => void): this {
+    this.dockStartCallback = cb;
+    return this;
+  }
+
+  /**
+   * Registers a callback invoked once a new dock position has been saved.
+   */
+  onDocked(cb: () => void): this {
+    this.dockedCallback = cb;
+    return this;
+  }
+
+  get isPressed(): boolean {
+    return this.pressed;
+  }
+
+  /** The current or last press neither moved nor started a drag. */
+  get isHolding(): boolean {
+    return this.holding;
+  }
+
+  get isDocking(): boolean {
+    return this.docking;
+  }
+
+  /** A drag just ended, so the click that may follow should be ignored. */
+  get justDocked(): boolean {
+    return Date.now() - this.dockedAt < 300;
+  }
+
+  /**
+   * Moves the FAB to its stored dock position and tells the toolbar which
+   * side to keep clear.
+   */
+  apply(): void {
+    const dock = loadFABDock(this.app, this.plugin.settings);
+    Object.keys(dockAnchors).forEach(d =>
+      this.fabEl.toggleClass(`mod-dock-${d}`, d === dock),
+    );
+    const side = fabToolbarSide(dock);
+    this.containerEl.toggleClass('mobile-fab-side-left', side === 'left');
+    this.containerEl.toggleClass('mobile-fab-side-right', side === 'right');
+  }
+
+  /**
+   * Keeps the current press from starting a drag, for interactions that
+   * take the press over.
+   */
+  cancel(): void {
+    this.clearHoldTimer();
+  }
+
+  destroy(): void {
+    this.fabEl.removeEventListener('touchstart', this.onPress);
+    this.fabEl.removeEventListener('mousedown', this.onPress);
+    this.stopListening();
+    this.clearHoldTimer();
+    this.targetsEl?.remove();
+    this.containerEl.removeClass(
+      'mobile-fab-side-left',
+      'mobile-fab-side-right',
+    );
+  }
+
+  private onPress = (e: MouseEvent | TouchEvent): void => {
+    const point = FABDocker.pointer(e);
+    if (!point) return;
+    this.start = point;
+    this.pressed = true;
+    this.holding = true;
+    this.docking = false;
+    this.clearHoldTimer();
+    this.holdTimer = window.setTimeout(this.startDocking, DOCK_HOLD_MS);
+    const doc = window.activeDocument;
+    doc.addEventListener('touchmove', this.onMove, { passive: false });
+    doc.addEventListener('mousemove', this.onMove);
+    doc.addEventListener('touchend', this.onRelease);
+    doc.addEventListener('touchcancel', this.onRelease);
+    doc.addEventListener('mouseup', this.onRelease);
+  };
+
+  private startDocking = (): void => {
+    this.holdTimer = null;
+    this.holding = false;
+    this.docking = true;
+    this.dockStartCallback?.();
+    this.fabEl.addClass('is-docking');
+    this.targetsEl = this.containerEl.createDiv('mobile-fab-dock-targets');
+    Object.keys(dockAnchors).forEach(dock =>
+      this.targetsEl!.createDiv(`mobile-fab-dock-target mod-dock-${dock}`),
+    );
+    this.plugin.hapticFeedback(30);
+  };
+
+  private onMove = (e: MouseEvent | TouchEvent): void => {
+    const point = FABDocker.pointer(e);
+    if (!point) return;
+    if (!this.docking) {
+      if (point.distanceTo(this.start) > HOLD_TOLERANCE) {
+        this.holding = false;
+        this.clearHoldTimer();
+      }
+      return;
+    }
+    e.preventDefault();
+    const d = point.subtract(this.start);
+    this.fabEl.setCssStyles({ translate: `${d.x}px ${d.y}px` });
+  };
+
+  private onRelease = (e: MouseEvent | TouchEvent): void => {
+    this.pressed = false;
+    this.clearHoldTimer();
+    this.stopListening();
+    if (!this.docking) return;
+    this.docking = false;
+    this.dockedAt = Date.now();
+    this.fabEl.removeClass('is-docking');
+    this.fabEl.setCssStyles({ translate: '' });
+    this.targetsEl?.remove();
+    this.targetsEl = null;
+
+    const point =
+      e instanceof MouseEvent
+        ? new Offset(e.clientX, e.clientY)
+        : FABDocker.touchPoint(e.changedTouches[0]);
+    if (!point) return;
+    saveFABDock(this.app, this.plugin.settings, this.nearestDock(point));
+    this.apply();
+    this.dockedCallback?.();
+  };
+
+  private nearestDock(point: Offset): FABDock {
+    const rect = this.containerEl.getBoundingClientRect();
+    let nearest = DEFAULT_FAB_DOCK;
+    let best = Infinity;
+    (Object.entries(dockAnchors) as [FABDock, [number, number]][]).forEach(
+      ([dock, [x, y]]) => {
+        const distance = point.distanceTo(
+          new Offset(rect.left + x * rect.width, rect.top + y * rect.height),
+        );
+        if (distance < best) {
+          best = distance;
+          nearest = dock;
+        }
+      },
+    );
+    return nearest;
+  }
+
+  private stopListening(): void {
+    const doc = window.activeDocument;
+    doc.removeEventListener('touchmove', this.onMove);
+    doc.removeEventListener('mousemove', this.onMove);
+    doc.removeEventListener('touchend', this.onRelease);
+    doc.removeEventListener('touchcancel', this.onRelease);
+    doc.removeEventListener('mouseup', this.onRelease);
+  }
+
+  private clearHoldTimer(): void {
+    if (this.holdTimer === null) return;
+    window.clearTimeout(this.holdTimer);
+    this.holdTimer = null;
+  }
+
+  private static pointer(e: MouseEvent | TouchEvent): Offset | null {
+    if (e instanceof MouseEvent) return new Offset(e.clientX, e.clientY);
+    return FABDocker.touchPoint(e.touches[0]);
+  }
+
+  private static touchPoint(touch: Touch | undefined): Offset | null {
+    return touch ? new Offset(touch.clientX, touch.clientY) : null;
+  }
+}
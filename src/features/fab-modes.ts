@@ -0,0 +1,201 @@
+import { App, Modal, Notice, SettingGroup } from 'obsidian';
+import MobilePlugin from '../main';
+import { CommandSuggestModal, IconSuggestModal } from '../settings';
+
+/**
+ * A mode the FAB can be switched into, replacing its usual behaviour with
+ * its own commands. Each mode gets a `mobile:fab-mode-<id>` toggle command.
+ *
+ * @property id - Stable identifier used in the toggle command id.
+ * @property name - Display name, also used in the toggle command name.
+ * @property icon - Icon shown on the FAB while the mode is active.
+ * @property press - Command run when the FAB is tapped. Unused with
+ *   `holdStart`, which takes over every press.
+ * @property holdStart - Command run when the FAB is pressed down.
+ * @property holdEnd - Command run when the FAB is released after `holdStart`.
+ * @property longpress - Command run when the FAB is long-pressed.
+ */
+export interface FABModeConfig {
+  id: string;
+  name: string;
+  icon: string;
+  press?: string;
+  holdStart?: string;
+  holdEnd?: string;
+  longpress?: string;
+}
+
+export type FABModeEvent = 'press' | 'holdStart' | 'holdEnd' | 'longpress';
+
+export const fabModeEventDesc: Record<FABModeEvent, [string, string]> = {
+  press: ['Press', 'Command to run when the button is tapped'],
+  holdStart: ['Hold start', 'Command to run when the button is pressed down'],
+  holdEnd: ['Hold end', 'Command to run when the button is released'],
+  longpress: ['Long press', 'Command to run when the button is long-pressed'],
+};
+
+export const fabModeCommandId = (mode: FABModeConfig) => `fab-mode-${mode.id}`;
+
+/**
+ * Registers a toggle command for every configured FAB mode.
+ */
+export function registerFABModeCommands(plugin: MobilePlugin) {
+  plugin.settings.fabModes.forEach(mode =>
+    registerFABModeCommand(plugin, mode),
+  );
+}
+
+/**
+ * Registers (or re-registers, e.g. after a rename) the toggle command for a
+ * FAB mode.
+ */
+export function registerFABModeCommand(
+  plugin: MobilePlugin,
+  mode: FABModeConfig,
+) {
+  plugin.addCommand({
+    id: fabModeCommandId(mode),
+    name: `Toggle ${mode.name} mode`,
+    icon: mode.icon,
+    callback: () => toggleFABMode(plugin, mode.id),
+  });
+}
+
+/**
+ * Finds a mode from the settings, or one registered by another plugin.
+ */
+export function findFABMode(
+  plugin: MobilePlugin,
+  id: string | null,
+): FABModeConfig | undefined {
+  return (
+    plugin.settings.fabModes.find(m => m.id === id) ??
+    plugin.api.registeredFABModes.find(m => m.id === id)
+  );
+}
+
+/**
+ * Switches the FAB into a mode, or back to normal if it is already in it.
+ */
+export function toggleFABMode(plugin: MobilePlugin, id: string) {
+  const mode = findFABMode(plugin, id);
+  if (!mode || !plugin.fabManager) return;
+  if (plugin.fabManager.getMode() === id) {
+    plugin.fabManager.setMode(null);
+    new Notice(`${mode.name} mode disabled`);
+  } else {
+    plugin.fabManager.setMode(id);
+    new Notice(`${mode.name} mode enabled`);
+  }
+}
+
+/**
+ * Modal for editing a FAB mode.
+ *
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class FABModeModal extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private mode: FABModeConfig,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl, mode } = this;
+    contentEl.empty();
+    this.setTitle('Edit floating action button mode');
+
+    const group = new SettingGroup(contentEl)
+      .addSetting(
+        setting =>
+          void setting.setName('Name').addText(text =>
+            text.setValue(mode.name).onChange(async value => {
+              mode.name = value;
+              await this.plugin.saveSettings();
+            }),
+          ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Icon')
+            .setDesc(mode.icon)
+            .addExtraButton(btn =>
+              btn
+                .setIcon(mode.icon)
+                .setTooltip('Change icon')
+                .onClick(() => {
+                  new IconSuggestModal(this.app, icon => {
+                    void (async () => {
+                      mode.icon = icon;
+                      registerFABModeCommand(this.plugin, mode);
+                      await this.plugin.saveSettings();
+                      this.render();
+                    })();
+                  }).open();
+                }),
+            ),
+      );
+
+    (
+      Object.entries(fabModeEventDesc) as [FABModeEvent, [string, string]][]
+    ).forEach(([event, [name, desc]]) => {
+      // Holding takes over every press, so a press command would never run
+      const unused = event === 'press' && Boolean(mode.holdStart);
+      group.addSetting(
+        setting =>
+          void setting
+            .setName(name)
+            .setDesc(unused ? 'Not used while hold start is set' : desc)
+            .setDisabled(unused)
+            .addButton(button =>
+              button
+                .setButtonText(mode[event] || 'Select command')
+                .setDisabled(unused)
+                .onClick(() => {
+                  new CommandSuggestModal(this.app, command => {
+                    void (async () => {
+                      mode[event] = command.id;
+                      if (event === 'holdStart') delete mode.press;
+                      await this.plugin.saveSettings();
+                      this.render();
+                    })();
+                  }).open();
+                }),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Clear command')
+                .onClick(async () => {
+                  delete mode[event];
+                  await this.plugin.saveSettings();
+                  this.render();
+                }),
+            ),
+      );
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Renaming re-registers the command once rather than on every keystroke
+    registerFABModeCommand(this.plugin, this.mode);
+    this.closeCallback();
+  }
+}
@@ -0,0 +1,238 @@
+import { App, MarkdownView, Modal, SettingGroup, View } from 'obsidian';
+import MobilePlugin from '../main';
+import { CommandSuggestModal, IconSuggestModal } from '../settings';
+import { GestureCommand } from '../utils/gesture-handler';
+
+export type FABProfileType =
+  'markdown' | 'reading' | 'canvas' | 'pdf' | 'graph' | 'empty';
+
+export const fabProfileDisplayNames: Record<FABProfileType, string> = {
+  markdown: 'Markdown editor',
+  reading: 'Reading mode',
+  canvas: 'Canvas',
+  pdf: 'PDF',
+  graph: 'Graph',
+  empty: 'Empty tab',
+};
+
+/**
+ * Which gestures the FAB of a profile recognizes.
+ * - all: every gesture available in the view
+ * - scoped: only gestures limited to the profile's view type
+ */
+export type FABProfileGestures = 'all' | 'scoped';
+
+export const fabProfileGesturesDesc: Record<FABProfileGestures, string> = {
+  all: 'All gestures',
+  scoped: 'Only gestures limited to this view',
+};
+
+/**
+ * FAB behaviour for one view type. Unset fields fall back to the global
+ * FAB settings.
+ *
+ * @property icon - Icon shown on the FAB.
+ * @property press - Command run when the FAB is tapped.
+ * @property longpress - Command run when the FAB is long-pressed.
+ * @property gestures - Which gestures can be drawn from the FAB.
+ */
+export interface FABProfile {
+  icon?: string;
+  press?: string;
+  longpress?: string;
+  gestures?: FABProfileGestures;
+}
+
+/**
+ * The profile that applies to a view, or null if the view has none.
+ * Markdown views switch between the editor and reading profiles with
+ * their mode.
+ */
+export function getFABProfileType(view: View): FABProfileType | null {
+  if (view instanceof MarkdownView) {
+    return view.getMode() === 'preview' ? 'reading' : 'markdown';
+  }
+  const viewType = view.getViewType();
+  return viewType in fabProfileDisplayNames
+    ? (viewType as FABProfileType)
+    : null;
+}
+
+/**
+ * View type that gestures are scoped to for a profile. Reading mode shares
+ * the Markdown view type.
+ */
+export function profileViewType(type: FABProfileType): string {
+  return type === 'reading' ? 'markdown' : type;
+}
+
+/**
+ * Gestures the FAB of a profile should recognize.
+ */
+export function profileGestures(
+  gestureCommands: GestureCommand[],
+  type: FABProfileType | null,
+  profile: FABProfile | undefined,
+): GestureCommand[] {
+  if (!type || profile?.gestures !== 'scoped') return gestureCommands;
+  const viewType = profileViewType(type);
+  return gestureCommands.filter(gc => gc.viewTypes?.includes(viewType));
+}
+
+/**
+ * Modal for editing the FAB profile of one view type.
+ *
+ * Changes are saved automatically as they're made; clearing a field
+ * returns it to the global FAB setting.
+ *
+ * @extends Modal
+ */
+export class FABProfileModal extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private type: FABProfileType,
+  ) {
+    super(app);
+  }
+
+  get profile(): FABProfile {
+    return this.plugin.settings.fabProfiles[this.type] ?? {};
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl, profile } = this;
+    const { settings } = this.plugin;
+    contentEl.empty();
+    this.setTitle(
+      `Floating action button: ${fabProfileDisplayNames[this.type]}`,
+    );
+
+    new SettingGroup(contentEl)
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Icon')
+            .setDesc(profile.icon ?? 'Default')
+            .addExtraButton(btn =>
+              btn
+                .setIcon(profile.icon ?? 'plus')
+                .setTooltip('Change icon')
+                .onClick(() => {
+                  new IconSuggestModal(this.app, icon =>
+                    this.update({ icon }),
+                  ).open();
+                }),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('rotate-ccw')
+                .setTooltip('Use default')
+                .onClick(() => this.update({ icon: undefined })),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Tap')
+            .setDesc(
+              profile.press ??
+                `Default: ${settings.MobileCMDEvents['fab-press'] || 'none'}`,
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('pencil')
+                .setTooltip('Change command')
+                .onClick(() => {
+                  new CommandSuggestModal(this.app, command =>
+                    this.update({ press: command.id }),
+                  ).open();
+                }),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('rotate-ccw')
+                .setTooltip('Use default')
+                .onClick(() => this.update({ press: undefined })),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Long press')
+            .setDesc(
+              profile.longpress ??
+                `Default: ${settings.radialMenuEnabled ? 'radial menu' : settings.MobileCMDEvents['fab-longpress'] || 'none'}`,
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('pencil')
+                .setTooltip('Change command')
+                .onClick(() => {
+                  new CommandSuggestModal(this.app, command =>
+                    this.update({ longpress: command.id }),
+                  ).open();
+                }),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('rotate-ccw')
+                .setTooltip('Use default')
+                .onClick(() => this.update({ longpress: undefined })),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Gestures')
+            .setDesc(
+              'Gestures drawn from this button while limited to this view are scoped to it automatically',
+            )
+            .addDropdown(dropdown =>
+              dropdown
+                .addOptions(fabProfileGesturesDesc)
+                .setValue(profile.gestures ?? 'all')
+                .onChange(value =>
+                  this.update({
+                    gestures:
+                      value === 'all'
+                        ? undefined
+                        : (value as FABProfileGestures),
+                  }),
+                ),
+            ),
+      );
+  }
+
+  private update(changes: Partial<FABProfile>) {
+    void (async () => {
+      const profile = { ...this.profile, ...changes };
+      (Object.keys(changes) as (keyof FABProfile)[]).forEach(key => {
+        if (changes[key] === undefined) delete profile[key];
+      });
+      // An empty profile falls back to the defaults entirely
+      if (Object.keys(profile).length === 0) {
+        delete this.plugin.settings.fabProfiles[this.type];
+      } else {
+        this.plugin.settings.fabProfiles[this.type] = profile;
+      }
+      await this.plugin.saveSettings();
+      this.render();
+    })();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.closeCallback();
+  }
+}
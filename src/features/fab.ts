@@ -1,26 +1,52 @@
 import { App, ButtonComponent, Command, Modal, Setting, View } from 'obsidian';
-import { GestureHandler, Offset } from '../utils/gesture-handler';
+import {
+  GestureCommand,
+  GestureHandler,
+  GestureInput,
+} from '../utils/gesture-handler';
 import MobilePlugin from '../main';
-import { CommandSuggestModal } from '../settings';
+import {
+  CommandSuggestModal,
+  EditGestureDrawingModal,
+  GestureConflictModal,
+} from '../settings';
+import { recordGestureMatch, recordUnrecognizedGesture } from './gesture-stats';
+import { RadialMenu } from './radial-menu';
+import { FABDocker } from './fab-dock';
+import { SpeedDial } from './speed-dial';
+import { FABModeConfig, findFABMode } from './fab-modes';
+import {
+  FABProfile,
+  FABProfileType,
+  getFABProfileType,
+  profileGestures,
+  profileViewType,
+} from './fab-profiles';
 
 /**
  * Manages FAB (Floating Action Button) placement and lifecycle across editor leaves.
  *
  * Responsible for creating, updating, and destroying FAB instances for each
- * workspace view. Handles mode switching between default and recording modes.
+ * workspace view. Handles switching between the default behaviour and the
+ * configured FAB modes.
  * Automatically creates FABs when new leaves are opened and cleans them up
  * when the plugin is disabled or unloaded.
  */
 export class FABManager {
   private fabElements: Map<View, MobileFAB> = new Map();
-  private currentMode: 'default' | 'recording' = 'default';
+  private currentMode: string | null = null;
 
-  setMode(mode: 'default' | 'recording'): void {
+  /**
+   * Switches every FAB into the mode with the given id, or back to the
+   * default behaviour with null.
+   */
+  setMode(mode: string | null): void {
     this.currentMode = mode;
     this.fabElements.forEach(fab => fab.setMode(mode));
+    this.plugin.api.trigger('fab-mode-change', mode);
   }
 
-  getMode(): 'default' | 'recording' {
+  getMode(): string | null {
     return this.currentMode;
   }
 
@@ -36,6 +62,14 @@ export class FABManager {
       this.app.workspace.on('layout-change', this.ensureAllFABs),
     );
 
+    // Portrait and landscape have their own dock positions
+    this.plugin.registerDomEvent(window, 'resize', () =>
+      this.fabElements.forEach(fab => fab.refresh()),
+    );
+
+    this.plugin.api.on(this.plugin, 'keyboard-open', this.onKeyboardChange);
+    this.plugin.api.on(this.plugin, 'keyboard-close', this.onKeyboardChange);
+
     // Initial FAB setup
     this.app.workspace.onLayoutReady(this.ensureAllFABs);
   }
@@ -49,17 +83,25 @@ export class FABManager {
         !this.fabElements.has(leaf.view) &&
         this.fabElements.set(
           leaf.view,
-          new MobileFAB(this.app, this.plugin, leaf.view.containerEl),
+          new MobileFAB(this.app, this.plugin, leaf.view),
         ),
     );
+    // Views can change profile, e.g. when a note switches to reading mode
+    this.fabElements.forEach(fab => fab.refresh());
   };
 
+  private onKeyboardChange = (): void =>
+    this.fabElements.forEach(fab => fab.showForKeyboard());
+
   /**
    * Refreshes FABs based on settings
    */
   refresh(): void {
     if (!this.plugin.settings.showFAB) this.destroy();
-    else this.ensureAllFABs();
+    else {
+      this.ensureAllFABs();
+      this.fabElements.forEach(fab => fab.refresh());
+    }
   }
 
   /**
@@ -75,109 +117,262 @@ export class FABManager {
  * Mobile FAB (Floating Action Button) component.
  *
  * A persistent button that floats at the bottom-right of the editor view,
- * providing quick access to common actions. Features include:
- * - Press: Execute configured command
- * - Long press: Execute alternative command (e.g., command palette)
+ * or wherever it was docked, providing quick access to common actions.
+ * Features include:
+ * - Press: Execute configured command, or open the speed dial
+ * - Long press: Execute alternative command (e.g., command palette) on
+ *   release, or open the radial menu
+ * - Hold and drag: Dock the FAB on another edge or corner
  * - Gesture drawing: Draw gestures from the FAB to trigger custom commands
- * - Recording mode: Hold to record audio (when audio recorder plugin is available)
+ * - Modes: Replace the above with a mode's own commands, e.g. hold to record
+ *   audio in recording mode
  * - Haptic feedback: Vibration feedback on touch devices
  *
  * @extends ButtonComponent
  */
 class MobileFAB extends ButtonComponent {
   private gestureHandler!: GestureHandler;
-  private mode: 'default' | 'recording' = 'default';
+  private docker!: FABDocker;
+  private radialMenu: RadialMenu | null = null;
+  private speedDial: SpeedDial;
+  private mode: string | null = null;
+  private heldMode: FABModeConfig | null = null;
 
   constructor(
     private app: App,
     public plugin: MobilePlugin,
-    containerEl: HTMLElement,
+    private view: View,
   ) {
-    super(containerEl);
+    super(view.containerEl);
+    this.speedDial = new SpeedDial(
+      app,
+      plugin,
+      this.buttonEl,
+      view.containerEl,
+    );
 
     this.setTooltip('Create new note (long press for command palette)')
-      .setIcon('plus')
+      .setIcon(this.profile?.icon ?? 'plus')
       .setClass('mobile-fab')
       .onClick(() => {
-        if (this.mode === 'recording') return;
+        if (this.docker.justDocked) return;
+        this.plugin.api.trigger('fab-press', this.view);
+        const mode = this.activeMode;
+        if (mode) {
+          if (!mode.press) return;
+          this.plugin.hapticFeedback(10);
+          return this.app.commands?.executeCommandById(mode.press);
+        }
         this.plugin.hapticFeedback(10);
-        plugin.triggerCMDEvent('fab-press');
+        const speedDial = plugin.settings.toolbars.find(
+          t => t.id === plugin.settings.speedDialToolbar,
+        );
+        if (this.profile?.press) {
+          this.app.commands?.executeCommandById(this.profile.press);
+        } else if (speedDial) {
+          this.speedDial.toggle(speedDial);
+        } else plugin.triggerCMDEvent('fab-press');
+      })
+      .then(btn => {
+        this.docker = new FABDocker(
+          this.app,
+          this.plugin,
+          btn.buttonEl,
+          view.containerEl,
+        )
+          .onDockStart(() => {
+            this.gestureHandler.cancel();
+            this.radialMenu?.close();
+            this.speedDial.close();
+          })
+          .onDocked(() => this.plugin.fabManager?.refresh());
       })
       .then(btn =>
         btn.buttonEl.addEventListener('contextmenu', e => {
-          if (this.mode === 'recording') {
-            e.preventDefault();
+          e.preventDefault();
+          const mode = this.activeMode;
+          if (mode) {
+            this.plugin.api.trigger('fab-longpress', this.view);
+            if (!mode.longpress) return;
+            this.plugin.hapticFeedback(20);
+            return this.app.commands?.executeCommandById(mode.longpress);
+          }
+          const { radialMenuEnabled, radialMenuSlots } = this.plugin.settings;
+          if (
+            !this.profile?.longpress &&
+            radialMenuEnabled &&
+            radialMenuSlots.length
+          ) {
+            // The finger now picks a slot instead of drawing a gesture or
+            // moving the FAB
+            this.gestureHandler.cancel();
+            this.docker.cancel();
+            this.plugin.api.trigger('fab-longpress', this.view);
+            this.radialMenu = new RadialMenu(
+              this.app,
+              this.plugin,
+              radialMenuSlots,
+            );
+            this.radialMenu.open(btn.buttonEl);
             return;
           }
-          e.preventDefault();
           this.plugin.hapticFeedback(20);
-          plugin.triggerCMDEvent('fab-longpress');
+          if (!this.docker.isPressed) return this.runLongPress();
+          // Wait for release, as holding on starts moving the FAB instead
+          const doc = window.activeDocument;
+          const onRelease = () => {
+            doc.removeEventListener('touchend', onRelease);
+            doc.removeEventListener('mouseup', onRelease);
+            if (this.docker.isHolding) this.runLongPress();
+          };
+          doc.addEventListener('touchend', onRelease);
+          doc.addEventListener('mouseup', onRelease);
         }),
       )
       .then(btn => {
-        // Add recording mode listeners
-        const startRecording = (e: Event) => {
-          if (this.mode !== 'recording') return;
+        // Hold listeners for modes with hold commands
+        const startHold = (e: Event) => {
+          const mode = this.activeMode;
+          if (!mode?.holdStart) return;
           e.preventDefault();
           e.stopPropagation();
+          // Holding records instead of moving the FAB
+          this.docker.cancel();
           this.plugin.hapticFeedback(10);
-          plugin.triggerCMDEvent('fab-record-start');
-          btn.buttonEl.addClass('is-recording');
+          this.heldMode = mode;
+          this.app.commands?.executeCommandById(mode.holdStart);
+          btn.buttonEl.addClass('is-holding');
         };
 
-        const stopRecording = (e: Event) => {
-          if (
-            this.mode !== 'recording' ||
-            !btn.buttonEl.hasClass('is-recording')
-          )
-            return;
+        const stopHold = (e: Event) => {
+          const mode = this.heldMode;
+          if (!mode) return;
           e.preventDefault();
           e.stopPropagation();
           this.plugin.hapticFeedback(10);
-          plugin.triggerCMDEvent('fab-record-stop');
-          btn.buttonEl.removeClass('is-recording');
+          this.heldMode = null;
+          if (mode.holdEnd) this.app.commands?.executeCommandById(mode.holdEnd);
+          btn.buttonEl.removeClass('is-holding');
         };
 
-        btn.buttonEl.addEventListener('touchstart', startRecording, {
+        btn.buttonEl.addEventListener('touchstart', startHold, {
           passive: false,
         });
-        btn.buttonEl.addEventListener('touchend', stopRecording, {
+        btn.buttonEl.addEventListener('touchend', stopHold, {
           passive: false,
         });
-        btn.buttonEl.addEventListener('mousedown', startRecording);
-        btn.buttonEl.addEventListener('mouseup', stopRecording);
-        btn.buttonEl.addEventListener('mouseleave', stopRecording);
+        btn.buttonEl.addEventListener('mousedown', startHold);
+        btn.buttonEl.addEventListener('mouseup', stopHold);
+        btn.buttonEl.addEventListener('mouseleave', stopHold);
 
         this.gestureHandler = new GestureHandler(
           this.app,
           btn.buttonEl,
-          plugin.settings.gestureCommands,
-          line => {
-            if (this.mode === 'recording') return;
-            new NewGesture(this.app, this.plugin, line).then(g =>
-              this.plugin.settings.showCommandConfirmation
-                ? g.open()
-                : g.openCommandSelection(),
-            );
+          this.gestures(),
+          (input, _gesture, candidates) => {
+            if (this.activeMode) return;
+            this.speedDial.close();
+            recordUnrecognizedGesture(this.plugin, input, candidates);
+            this.plugin.api.trigger('gesture-unknown', input, 'fab');
+            const type = this.profileType;
+            new NewGesture(this.app, this.plugin, input)
+              .setViewTypes(
+                type && this.profile?.gestures === 'scoped'
+                  ? [profileViewType(type)]
+                  : undefined,
+              )
+              .then(g =>
+                this.plugin.settings.showCommandConfirmation
+                  ? g.open()
+                  : g.openCommandSelection(),
+              );
           },
-        );
+          false,
+          plugin.settings.gestureThreshold,
+          plugin.settings.gestureStrokeTimeout,
+        )
+          .setContextProvider(() => this.plugin.getGestureContext(this.view))
+          .onMatch(match => {
+            this.speedDial.close();
+            recordGestureMatch(this.plugin, match);
+            this.plugin.api.trigger('gesture-match', match, 'fab');
+          });
       });
-    this.setMode(this.plugin.fabManager?.getMode() || 'default');
+    this.setMode(this.plugin.fabManager?.getMode() ?? null);
   }
 
-  setMode(mode: 'default' | 'recording') {
+  setMode(mode: string | null) {
     this.mode = mode;
-    if (mode === 'recording') {
-      this.setIcon('microphone');
-      this.buttonEl.addClass('recording-mode');
-    } else {
-      this.setIcon('plus');
-      this.buttonEl.removeClass('recording-mode');
-    }
+    const config = this.activeMode;
+    this.setIcon(config?.icon ?? this.profile?.icon ?? 'plus');
+    this.buttonEl.toggleClass('fab-mode-active', Boolean(config));
+    if (config) this.buttonEl.dataset.fabMode = config.id;
+    else delete this.buttonEl.dataset.fabMode;
+  }
+
+  /** The configured mode the FAB is in, if it still exists. */
+  private get activeMode(): FABModeConfig | undefined {
+    return findFABMode(this.plugin, this.mode);
+  }
+
+  private runLongPress() {
+    this.plugin.api.trigger('fab-longpress', this.view);
+    if (this.profile?.longpress) {
+      this.app.commands?.executeCommandById(this.profile.longpress);
+    } else this.plugin.triggerCMDEvent('fab-longpress');
+  }
+
+  /**
+   * Profile type of the view, which changes when a note switches between
+   * editing and reading
+   */
+  private get profileType(): FABProfileType | null {
+    return getFABProfileType(this.view);
+  }
+
+  private get profile(): FABProfile | undefined {
+    const type = this.profileType;
+    return type ? this.plugin.settings.fabProfiles[type] : undefined;
+  }
+
+  private gestures(): GestureCommand[] {
+    return profileGestures(
+      this.plugin.settings.gestureCommands,
+      this.profileType,
+      this.profile,
+    );
+  }
+
+  /**
+   * Picks up the latest gesture settings and profile
+   */
+  refresh() {
+    this.setMode(this.mode);
+    this.docker.apply();
+    this.showForKeyboard();
+    this.gestureHandler?.update(
+      this.gestures(),
+      this.plugin.settings.gestureThreshold,
+      this.plugin.settings.gestureStrokeTimeout,
+    );
+  }
+
+  /**
+   * Hides the FAB while the keyboard is open, if the user wants to
+   */
+  showForKeyboard() {
+    this.buttonEl.toggleClass(
+      'is-keyboard-hidden',
+      this.plugin.settings.hideFABWhenKeyboardOpen &&
+        this.plugin.api.isKeyboardOpen(),
+    );
   }
 
   teardown() {
     this.gestureHandler?.destroy();
+    this.docker.destroy();
+    this.radialMenu?.close();
+    this.speedDial.close();
     this.buttonEl.remove();
   }
 }
@@ -185,7 +380,8 @@ class MobileFAB extends ButtonComponent {
 /**
  * Modal dialog for assigning commands to newly drawn gestures.
  *
- * Appears when a user draws an unrecognized gesture from the FAB,
+ * Appears when a user draws an unrecognized gesture from the FAB
+ * or an editor gesture surface,
  * allowing them to:
  * - Assign a command to the gesture
  * - Skip the confirmation dialog in future
@@ -193,11 +389,14 @@ class MobileFAB extends ButtonComponent {
  *
  * @extends Modal
  */
-class NewGesture extends Modal {
+export class NewGesture extends Modal {
+  private saveCallback?: (gesture: GestureCommand) => void;
+  private viewTypes?: string[];
+
   constructor(
     app: App,
     private plugin: MobilePlugin,
-    private line: Offset[],
+    private input: GestureInput,
   ) {
     super(app);
   }
@@ -229,19 +428,65 @@ class NewGesture extends Modal {
   openCommandSelection(): void {
     new CommandSuggestModal(this.app, (command: Command) => {
       // Assign selected command to the new gesture
-      this.plugin.settings.gestureCommands.push({
+      const gesture: GestureCommand = {
         name: command.name || 'unnamed',
         commandId: command.id,
-        gesturePath: JSON.stringify(
-          this.line.map(p => [Number(p.x.toFixed(2)), Number(p.y.toFixed(2))]),
-        ),
-      });
+        samples: [GestureHandler.toSample(this.input)],
+      };
+      if (this.viewTypes) gesture.viewTypes = this.viewTypes;
+      const save = () => {
+        this.plugin.settings.gestureCommands.push(gesture);
+        this.saveCallback?.(gesture);
+        void this.plugin.saveSettings();
+      };
+
+      const [conflict] = GestureHandler.findConflicts(
+        gesture,
+        this.plugin.settings.gestureCommands,
+        this.plugin.settings.gestureThreshold,
+      );
+      if (!conflict) {
+        save();
+        this.close();
+        return;
+      }
 
-      void this.plugin.saveSettings();
+      new GestureConflictModal(this.app, conflict, choice => {
+        if (choice === 'replace') {
+          this.plugin.settings.gestureCommands.remove(conflict.other);
+          save();
+        } else if (choice === 'keep') {
+          save();
+        } else {
+          // Draw it again from scratch; a gesture left without samples is
+          // dropped when the drawing modal closes
+          gesture.samples = [];
+          save();
+          new EditGestureDrawingModal(this.app, this.plugin, gesture, () =>
+            this.saveCallback?.(gesture),
+          ).open();
+        }
+      }).open();
       this.close();
     }).open();
   }
 
+  /**
+   * Limits the new gesture to the given view types
+   */
+  setViewTypes(viewTypes: string[] | undefined): this {
+    this.viewTypes = viewTypes;
+    return this;
+  }
+
+  /**
+   * Sets a callback to run once the gesture has been saved
+   */
+  onSave(cb: (gesture: GestureCommand) => void): this {
+    this.saveCallback = cb;
+    return this;
+  }
+
   then(cb: (modal: this) => void): this {
     cb(this);
     return this;
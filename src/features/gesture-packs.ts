@@ -0,0 +1,574 @@
+import {
+  App,
+  FuzzySuggestModal,
+  Modal,
+  normalizePath,
+  Notice,
+  Setting,
+  TFile,
+} from 'obsidian';
+import MobilePlugin from '../main';
+import {
+  ContextBinding,
+  MobilePluginSettings,
+  ToolbarConfig,
+} from '../settings';
+import {
+  GestureCommand,
+  GestureHandler,
+  migrateGestureSamples,
+} from '../utils/gesture-handler';
+import { contextRuleDesc, CustomContext } from './custom-contexts';
+import { MacroConfig, macroCommandId, registerMacroCommand } from './macros';
+import {
+  defaultToolbarButtonActions,
+  registerToolbarButtonCommand,
+  ToolbarButton,
+  toolbarButtonCommandId,
+  ToolbarButtonType,
+} from './toolbar-buttons';
+
+/** Version written to exported packs; bump when the format changes. */
+export const GESTURE_PACK_VERSION = 1;
+
+/**
+ * A shareable bundle of gestures, toolbars and their bindings.
+ *
+ * Macros, toolbar buttons, custom contexts and custom icons travel with the
+ * pack because gestures, toolbars and bindings may refer to them.
+ */
+export interface GesturePack {
+  version: number;
+  name: string;
+  gestureCommands: GestureCommand[];
+  toolbars: ToolbarConfig[];
+  contextBindings: ContextBinding[];
+  customContexts: CustomContext[];
+  macros: MacroConfig[];
+  toolbarButtons: ToolbarButton[];
+  commandIcons: Record<string, string>;
+}
+
+export type GesturePackImportMode = 'merge' | 'replace';
+
+/**
+ * Builds a pack from the current settings. Usage statistics are personal, so
+ * they are reset.
+ */
+export function createGesturePack(
+  settings: MobilePluginSettings,
+  name: string,
+): GesturePack {
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+  return {
+    version: GESTURE_PACK_VERSION,
+    name,
+    gestureCommands: copy(settings.gestureCommands).map(gesture => ({
+      ...gesture,
+      samples: gesture.samples.map(sample => ({ ...sample, hits: 0 })),
+      lastUsed: undefined,
+      nearMisses: undefined,
+    })),
+    toolbars: copy(settings.toolbars),
+    contextBindings: copy(settings.contextBindings),
+    customContexts: copy(settings.customContexts),
+    macros: copy(settings.macros),
+    toolbarButtons: copy(settings.toolbarButtons),
+    commandIcons: copy(settings.commandIcons),
+  };
+}
+
+/** The lists of entries in a pack. */
+export type GesturePackList =
+  | 'gestureCommands'
+  | 'toolbars'
+  | 'contextBindings'
+  | 'customContexts'
+  | 'macros'
+  | 'toolbarButtons';
+
+/**
+ * A pack read from a file, with how many entries of each list were dropped
+ * for being malformed.
+ */
+export interface ParsedGesturePack {
+  pack: GesturePack;
+  skipped: Partial<Record<GesturePackList, number>>;
+}
+
+export const gesturePackListNames: Record<GesturePackList, string> = {
+  gestureCommands: 'gestures',
+  toolbars: 'toolbars',
+  contextBindings: 'context bindings',
+  customContexts: 'custom contexts',
+  macros: 'macros',
+  toolbarButtons: 'toolbar buttons',
+};
+
+type PackEntry = Record<string, unknown>;
+
+const isEntry = (value: unknown): value is PackEntry =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptionalStringArray = (value: unknown): boolean =>
+  value === undefined || (Array.isArray(value) && value.every(isString));
+
+/** Whether a sample path parses into strokes of numeric points */
+function isValidPath(path: unknown): boolean {
+  if (!isString(path)) return false;
+  try {
+    return GestureHandler.parseStrokes(path).every(stroke =>
+      stroke.every(p => Number.isFinite(p.x) && Number.isFinite(p.y)),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function isValidMacroStep(step: unknown): boolean {
+  if (!isEntry(step)) return false;
+  switch (step.type) {
+    case 'command':
+      return isString(step.commandId);
+    case 'delay':
+      return typeof step.ms === 'number';
+    case 'text':
+      return isString(step.text);
+  }
+  return false;
+}
+
+/**
+ * Checks one entry of each list. Gestures are migrated to the samples
+ * format on the way, like on load, and their unusable samples dropped.
+ */
+const packEntryValidators: Record<
+  GesturePackList,
+  (entry: PackEntry) => boolean
+> = {
+  gestureCommands: entry => {
+    if (!isString(entry.name) || !isString(entry.commandId)) return false;
+    if (entry.threshold !== undefined && typeof entry.threshold !== 'number') {
+      return false;
+    }
+    if (!isOptionalStringArray(entry.contexts)) return false;
+    if (!isOptionalStringArray(entry.viewTypes)) return false;
+    if (entry.samples !== undefined && !Array.isArray(entry.samples)) {
+      return false;
+    }
+    const gesture = entry as unknown as GestureCommand;
+    migrateGestureSamples(gesture);
+    gesture.samples = gesture.samples
+      .filter(sample => isEntry(sample) && isValidPath(sample.path))
+      .map(sample => ({
+        ...sample,
+        hits: typeof sample.hits === 'number' ? sample.hits : 0,
+      }));
+    return gesture.samples.length > 0;
+  },
+  toolbars: entry =>
+    isString(entry.id) &&
+    isString(entry.name) &&
+    Array.isArray(entry.commands) &&
+    entry.commands.every(isString) &&
+    (entry.actions === undefined || isEntry(entry.actions)),
+  contextBindings: entry =>
+    isString(entry.contextType) && isString(entry.toolbarId),
+  customContexts: entry =>
+    isString(entry.id) &&
+    isString(entry.name) &&
+    Array.isArray(entry.rules) &&
+    entry.rules.every(
+      rule =>
+        isEntry(rule) &&
+        isString(rule.type) &&
+        rule.type in contextRuleDesc &&
+        isString(rule.value),
+    ),
+  macros: entry =>
+    isString(entry.id) &&
+    isString(entry.name) &&
+    Array.isArray(entry.steps) &&
+    entry.steps.every(isValidMacroStep),
+  toolbarButtons: entry => {
+    if (!isString(entry.id) || !isString(entry.name)) return false;
+    if (!isString(entry.type) || !(entry.type in defaultToolbarButtonActions)) {
+      return false;
+    }
+    // Each type needs the fields of its default action
+    const action = defaultToolbarButtonActions[entry.type as ToolbarButtonType];
+    return (
+      Object.keys(action).every(key => isString(entry[key])) &&
+      (entry.offCommand === undefined || isString(entry.offCommand))
+    );
+  },
+};
+
+/**
+ * Parses and validates pack file contents. Malformed entries are dropped
+ * and counted rather than failing the whole pack.
+ *
+ * @throws Error with a user-facing message when the file is not a usable pack
+ */
+export function parseGesturePack(json: string): ParsedGesturePack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isEntry(data) || typeof data.version !== 'number' || !data.version) {
+    throw new Error('File is not a gesture pack');
+  }
+  if (data.version > GESTURE_PACK_VERSION) {
+    throw new Error(
+      `Gesture pack version ${data.version} is newer than this plugin supports`,
+    );
+  }
+
+  const skipped: ParsedGesturePack['skipped'] = {};
+  const entries = <T>(list: GesturePackList): T[] => {
+    const value = data[list];
+    if (!Array.isArray(value)) return [];
+    const valid = value.filter(
+      entry => isEntry(entry) && packEntryValidators[list](entry),
+    );
+    if (valid.length < value.length) {
+      skipped[list] = value.length - valid.length;
+    }
+    return valid as T[];
+  };
+  const commandIcons = isEntry(data.commandIcons)
+    ? Object.fromEntries(
+        Object.entries(data.commandIcons).filter(
+          (entry): entry is [string, string] => isString(entry[1]),
+        ),
+      )
+    : {};
+
+  return {
+    pack: {
+      version: data.version,
+      name: isString(data.name) && data.name ? data.name : 'Unnamed pack',
+      gestureCommands: entries('gestureCommands'),
+      toolbars: entries('toolbars'),
+      contextBindings: entries('contextBindings'),
+      customContexts: entries('customContexts'),
+      macros: entries('macros'),
+      toolbarButtons: entries('toolbarButtons'),
+      commandIcons,
+    },
+    skipped,
+  };
+}
+
+/**
+ * Lists the command IDs a pack uses that are not registered here, and the
+ * plugins (by command ID prefix) they probably belong to.
+ */
+export function findMissingCommands(
+  app: App,
+  pack: GesturePack,
+): { commandIds: string[]; pluginIds: string[] } {
+  const registered = app.commands?.commands ?? {};
+  // Macro and button commands are registered when the pack is imported
+  const packCommands = new Set([
+    ...pack.macros.map(m => `mobile:${macroCommandId(m)}`),
+    ...pack.toolbarButtons.map(b => `mobile:${toolbarButtonCommandId(b)}`),
+  ]);
+  const used = new Set<string>([
+    ...pack.gestureCommands.map(g => g.commandId),
+    ...pack.toolbars.flatMap(t => [
+      ...t.commands,
+      ...Object.values(t.actions ?? {}).flatMap(a => [
+        ...(a.longPress ?? []),
+        a.swipeUp ?? '',
+      ]),
+    ]),
+    ...pack.macros.flatMap(m =>
+      m.steps.flatMap(step =>
+        step.type === 'command' ? [step.commandId] : [],
+      ),
+    ),
+    ...pack.toolbarButtons.flatMap(b =>
+      b.type === 'toggle' ? [b.onCommand, b.offCommand ?? ''] : [],
+    ),
+  ]);
+  const commandIds = [...used].filter(
+    id => id && !registered[id] && !packCommands.has(id),
+  );
+  const pluginIds = [
+    ...new Set(commandIds.map(id => id.split(':')[0]).filter(Boolean)),
+  ];
+  return { commandIds, pluginIds };
+}
+
+/**
+ * Applies a pack to the settings.
+ *
+ * - `replace` overwrites gestures, toolbars, bindings, custom contexts,
+ *   macros and toolbar buttons
+ * - `merge` keeps everything that exists and only adds what is new;
+ *   samples of a gesture with the same command and scope are combined
+ */
+export function applyGesturePack(
+  settings: MobilePluginSettings,
+  pack: GesturePack,
+  mode: GesturePackImportMode,
+): void {
+  if (mode === 'replace') {
+    settings.gestureCommands = pack.gestureCommands;
+    settings.toolbars = pack.toolbars;
+    settings.contextBindings = pack.contextBindings;
+    settings.customContexts = pack.customContexts;
+    settings.macros = pack.macros;
+    settings.toolbarButtons = pack.toolbarButtons;
+    settings.commandIcons = { ...settings.commandIcons, ...pack.commandIcons };
+    return;
+  }
+
+  const scopeKey = (g: GestureCommand) =>
+    JSON.stringify([g.commandId, g.viewTypes ?? [], g.contexts ?? []]);
+  for (const gesture of pack.gestureCommands) {
+    const existing = settings.gestureCommands.find(
+      g => scopeKey(g) === scopeKey(gesture),
+    );
+    if (!existing) {
+      settings.gestureCommands.push(gesture);
+      continue;
+    }
+    for (const sample of gesture.samples) {
+      if (!existing.samples.some(s => s.path === sample.path)) {
+        existing.samples.push(sample);
+      }
+    }
+  }
+
+  for (const toolbar of pack.toolbars) {
+    if (!settings.toolbars.some(t => t.id === toolbar.id)) {
+      settings.toolbars.push(toolbar);
+    }
+  }
+  for (const binding of pack.contextBindings) {
+    if (
+      !settings.contextBindings.some(
+        b =>
+          b.contextType === binding.contextType &&
+          b.toolbarId === binding.toolbarId,
+      )
+    ) {
+      settings.contextBindings.push(binding);
+    }
+  }
+  for (const context of pack.customContexts) {
+    if (!settings.customContexts.some(c => c.id === context.id)) {
+      settings.customContexts.push(context);
+    }
+  }
+  for (const macro of pack.macros) {
+    if (!settings.macros.some(m => m.id === macro.id)) {
+      settings.macros.push(macro);
+    }
+  }
+  for (const button of pack.toolbarButtons) {
+    if (!settings.toolbarButtons.some(b => b.id === button.id)) {
+      settings.toolbarButtons.push(button);
+    }
+  }
+  settings.commandIcons = { ...pack.commandIcons, ...settings.commandIcons };
+}
+
+/**
+ * Modal asking for a file name and writing the current setup as a pack.
+ *
+ * @extends Modal
+ */
+export class ExportGesturePackModal extends Modal {
+  private name = 'Gesture pack';
+
+  constructor(
+    app: App,
+    private plugin: MobilePlugin,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.setTitle('Export gesture pack');
+    new Setting(this.contentEl)
+      .setName('Pack name')
+      .setDesc('Saved as a pack file with this name in the vault root')
+      .addText(text =>
+        text.setValue(this.name).onChange(value => (this.name = value)),
+      );
+    new Setting(this.contentEl).addButton(btn =>
+      btn
+        .setButtonText('Export')
+        .setCta()
+        .onClick(() => void this.export()),
+    );
+  }
+
+  private async export() {
+    const pack = createGesturePack(this.plugin.settings, this.name);
+    const path = normalizePath(`${this.name || 'Gesture pack'}.json`);
+    const json = JSON.stringify(pack, null, 2);
+    try {
+      const existing = this.app.vault.getFileByPath(path);
+      if (existing) await this.app.vault.modify(existing, json);
+      else await this.app.vault.create(path, json);
+    } catch (e) {
+      new Notice(
+        `Could not export to ${path}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+      return;
+    }
+    new Notice(`Exported gesture pack to ${path}`);
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Modal for picking a JSON file in the vault to import as a pack.
+ *
+ * @extends FuzzySuggestModal
+ */
+export class GesturePackFileSuggest extends FuzzySuggestModal<TFile> {
+  constructor(
+    app: App,
+    private plugin: MobilePlugin,
+    private onImported: () => void,
+  ) {
+    super(app);
+    this.setPlaceholder('Select a gesture pack file...');
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter(f => f.extension === 'json');
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile) {
+    void (async () => {
+      try {
+        const { pack, skipped } = parseGesturePack(
+          await this.app.vault.read(file),
+        );
+        new ImportGesturePackModal(
+          this.app,
+          this.plugin,
+          pack,
+          skipped,
+          this.onImported,
+        ).open();
+      } catch (e) {
+        new Notice(
+          `Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`,
+        );
+      }
+    })();
+  }
+}
+
+/**
+ * Modal summarizing a pack before import, listing commands and plugins
+ * that are missing here, and letting the user merge or replace.
+ *
+ * @extends Modal
+ */
+export class ImportGesturePackModal extends Modal {
+  constructor(
+    app: App,
+    private plugin: MobilePlugin,
+    private pack: GesturePack,
+    private skipped: ParsedGesturePack['skipped'],
+    private onImported: () => void,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, pack } = this;
+    this.setTitle(`Import ${pack.name}`);
+    new Setting(contentEl).setDesc(
+      `${pack.gestureCommands.length} gestures, ${pack.toolbars.length} toolbars, ${pack.contextBindings.length} context bindings, ${pack.macros.length} macros`,
+    );
+
+    const skipped = Object.entries(this.skipped).map(
+      ([list, count]) =>
+        `${count} ${gesturePackListNames[list as GesturePackList]}`,
+    );
+    if (skipped.length > 0) {
+      new Setting(contentEl)
+        .setName('Invalid entries')
+        .setDesc(
+          `These entries are malformed and will not be imported: ${skipped.join(', ')}`,
+        );
+    }
+
+    const missing = findMissingCommands(this.app, pack);
+    if (missing.commandIds.length > 0) {
+      new Setting(contentEl)
+        .setName('Missing commands')
+        .setDesc(
+          `These commands are not available and will do nothing until the plugins that provide them are installed: ${missing.commandIds.join(', ')}`,
+        );
+      new Setting(contentEl)
+        .setName('Missing plugins')
+        .setDesc(missing.pluginIds.join(', '));
+    }
+
+    new Setting(contentEl)
+      .addButton(btn =>
+        btn
+          .setButtonText('Replace')
+          .setWarning()
+          .onClick(() => void this.import('replace')),
+      )
+      .addButton(btn =>
+        btn
+          .setButtonText('Merge')
+          .setCta()
+          .onClick(() => void this.import('merge')),
+      )
+      .addButton(btn =>
+        btn.setButtonText('Cancel').onClick(() => this.close()),
+      );
+  }
+
+  private async import(mode: GesturePackImportMode) {
+    if (mode === 'replace') {
+      // The replaced macros and buttons would otherwise keep their commands
+      this.plugin.settings.macros.forEach(macro =>
+        this.plugin.removeCommand(macroCommandId(macro)),
+      );
+      this.plugin.settings.toolbarButtons.forEach(button =>
+        this.plugin.removeCommand(toolbarButtonCommandId(button)),
+      );
+    }
+    applyGesturePack(this.plugin.settings, this.pack, mode);
+    this.plugin.settings.macros.forEach(macro =>
+      registerMacroCommand(this.plugin, macro),
+    );
+    this.plugin.settings.toolbarButtons.forEach(button =>
+      registerToolbarButtonCommand(this.plugin, button),
+    );
+    await this.plugin.saveSettings();
+    new Notice(`Imported ${this.pack.name}`);
+    this.onImported();
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
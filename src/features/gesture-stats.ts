@@ -0,0 +1,103 @@
+import MobilePlugin from '../main';
+import {
+  GestureCommand,
+  GestureHandler,
+  GestureInput,
+  GestureMatch,
+  GestureSample,
+} from '../utils/gesture-handler';
+
+/**
+ * A drawing that did not match any gesture, kept so it can be assigned later.
+ *
+ * @property time - When the drawing was made, in milliseconds since the epoch.
+ * @property sample - The drawing in the same format as gesture samples.
+ * @property nearest - The closest gesture and its confidence, if any was compared.
+ */
+export interface UnrecognizedGesture {
+  time: number;
+  sample: GestureSample;
+  nearest?: {
+    name: string;
+    commandId: string;
+    score: number;
+  };
+}
+
+/** Number of unrecognized drawings kept in the log. */
+export const UNRECOGNIZED_LOG_SIZE = 20;
+
+/** How far below its threshold a gesture can score and still count as a near miss. */
+export const NEAR_MISS_MARGIN = 0.15;
+
+/**
+ * Writes the settings without the refresh `saveSettings` does, since stats
+ * change nothing on screen and are recorded after every gesture.
+ */
+function saveStats(plugin: MobilePlugin): void {
+  void plugin.saveData(plugin.settings);
+}
+
+/**
+ * Counts a recognized gesture towards its sample and records when it was used.
+ */
+export function recordGestureMatch(
+  plugin: MobilePlugin,
+  match: GestureMatch,
+): void {
+  if (match.sample) match.sample.hits++;
+  match.gesture.lastUsed = Date.now();
+  saveStats(plugin);
+}
+
+/**
+ * Adds a drawing that matched nothing to the rolling log, and counts a near
+ * miss for the closest gesture if it scored just under its threshold.
+ */
+export function recordUnrecognizedGesture(
+  plugin: MobilePlugin,
+  input: GestureInput,
+  candidates: GestureMatch[],
+): void {
+  const { settings } = plugin;
+  const [closest] = candidates;
+  const entry: UnrecognizedGesture = {
+    time: Date.now(),
+    sample: GestureHandler.toSample(input),
+  };
+  if (closest) {
+    entry.nearest = {
+      name: closest.gesture.name,
+      commandId: closest.gesture.commandId,
+      score: Number(closest.score.toFixed(3)),
+    };
+    const threshold = closest.gesture.threshold ?? settings.gestureThreshold;
+    if (closest.score >= threshold - NEAR_MISS_MARGIN) {
+      closest.gesture.nearMisses = (closest.gesture.nearMisses ?? 0) + 1;
+    }
+  }
+  settings.unrecognizedGestures.unshift(entry);
+  settings.unrecognizedGestures.splice(UNRECOGNIZED_LOG_SIZE);
+  saveStats(plugin);
+}
+
+/**
+ * Finds the gesture an unrecognized drawing came closest to, if it still exists.
+ */
+export function findNearestGesture(
+  plugin: MobilePlugin,
+  entry: UnrecognizedGesture,
+): GestureCommand | undefined {
+  const { nearest } = entry;
+  if (!nearest) return undefined;
+  return plugin.settings.gestureCommands.find(
+    gc => gc.commandId === nearest.commandId && gc.name === nearest.name,
+  );
+}
+
+/**
+ * Total number of times any sample of the gesture was recognized.
+ */
+export function gestureHits(gesture: GestureCommand): number {
+  return gesture.samples.reduce((sum, sample) => sum + sample.hits, 0);
+}
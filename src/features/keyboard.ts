@@ -0,0 +1,79 @@
+import { Component } from 'obsidian';
+import MobilePlugin from '../main';
+
+// Anything shorter is browser chrome or a suggestion bar, not a keyboard
+const KEYBOARD_MIN_HEIGHT_PX = 120;
+
+/**
+ * Follows the on-screen keyboard through the VisualViewport API.
+ *
+ * While the keyboard is open the body gets the `mobile-keyboard-open`
+ * class, and `--mobile-keyboard-inset` holds how much of the page the
+ * keyboard covers, so the toolbar and FAB can sit right above it. Where the
+ * page shrinks to make room instead, the inset stays 0 and the keyboard is
+ * recognized by the viewport being shorter than its full height.
+ *
+ * Opening and closing are announced as `keyboard-open` and
+ * `keyboard-close` on the plugin API, for this plugin's features and
+ * others.
+ *
+ * @extends Component
+ */
+export class KeyboardTracker extends Component {
+  isOpen = false;
+  /** Height of the keyboard while it is open, otherwise 0 */
+  height = 0;
+  /** Tallest viewport seen per window width, i.e. per orientation */
+  private fullHeights: Map<number, number> = new Map();
+
+  constructor(private plugin: MobilePlugin) {
+    super();
+  }
+
+  onload(): void {
+    const viewport = window.visualViewport;
+    if (!viewport) return;
+    viewport.addEventListener('resize', this.update);
+    viewport.addEventListener('scroll', this.update);
+    this.register(() => {
+      viewport.removeEventListener('resize', this.update);
+      viewport.removeEventListener('scroll', this.update);
+    });
+    this.update();
+  }
+
+  onunload(): void {
+    const { body } = window.activeDocument;
+    body.removeClass('mobile-keyboard-open');
+    body.setCssProps({ '--mobile-keyboard-inset': '' });
+  }
+
+  private update = (): void => {
+    const viewport = window.visualViewport;
+    if (!viewport) return;
+
+    const width = window.innerWidth;
+    const fullHeight = Math.max(
+      this.fullHeights.get(width) ?? 0,
+      window.innerHeight,
+    );
+    this.fullHeights.set(width, fullHeight);
+
+    // Zooming in shrinks the viewport too, so compare unzoomed sizes
+    const height = Math.max(0, fullHeight - viewport.height * viewport.scale);
+    const isOpen = height > KEYBOARD_MIN_HEIGHT_PX;
+    const inset = isOpen
+      ? Math.max(0, window.innerHeight - viewport.offsetTop - viewport.height)
+      : 0;
+
+    const { body } = window.activeDocument;
+    body.setCssProps({ '--mobile-keyboard-inset': `${Math.round(inset)}px` });
+    body.toggleClass('mobile-keyboard-open', isOpen);
+    this.height = isOpen ? height : 0;
+
+    if (isOpen === this.isOpen) return;
+    this.isOpen = isOpen;
+    if (isOpen) this.plugin.api.trigger('keyboard-open', this.height);
+    else this.plugin.api.trigger('keyboard-close');
+  };
+}
@@ -0,0 +1,110 @@
+import { App, MarkdownView } from 'obsidian';
+import MobilePlugin from '../main';
+
+/**
+ * When a macro step runs. Steps whose condition fails are skipped.
+ */
+export type MacroCondition = 'always' | 'selection' | 'no-selection' | 'editor';
+
+export const macroConditionDesc: Record<MacroCondition, string> = {
+  always: 'Always',
+  selection: 'Only if a selection exists',
+  'no-selection': 'Only if nothing is selected',
+  editor: 'Only in an editor',
+};
+
+/**
+ * A single step of a macro.
+ *
+ * - `command`: runs `commandId`
+ * - `delay`: waits `ms` milliseconds before the next step
+ * - `text`: inserts `text` at the cursor, replacing the selection
+ */
+export type MacroStep = { condition?: MacroCondition } & (
+  | { type: 'command'; commandId: string }
+  | { type: 'delay'; ms: number }
+  | { type: 'text'; text: string }
+);
+
+/**
+ * An ordered list of steps, exposed as a `mobile:macro-<id>` command so it
+ * can be bound anywhere a command can (gestures, FAB events, toolbars).
+ */
+export interface MacroConfig {
+  id: string;
+  name: string;
+  steps: MacroStep[];
+}
+
+export const macroCommandId = (macro: MacroConfig) => `macro-${macro.id}`;
+
+/**
+ * Registers a command for every configured macro.
+ */
+export function registerMacroCommands(plugin: MobilePlugin) {
+  plugin.settings.macros.forEach(macro => registerMacroCommand(plugin, macro));
+}
+
+/**
+ * Registers (or re-registers, e.g. after a rename) the command for a macro.
+ */
+export function registerMacroCommand(plugin: MobilePlugin, macro: MacroConfig) {
+  plugin.addCommand({
+    id: macroCommandId(macro),
+    name: `Macro: ${macro.name}`,
+    icon: 'list-video',
+    callback: () => void runMacro(plugin.app, macro),
+  });
+}
+
+/**
+ * Runs the steps of a macro in order, waiting for delays.
+ */
+export async function runMacro(app: App, macro: MacroConfig): Promise<void> {
+  for (const step of macro.steps) {
+    if (!checkCondition(app, step.condition ?? 'always')) continue;
+    switch (step.type) {
+      case 'command':
+        app.commands?.executeCommandById(step.commandId);
+        break;
+      case 'delay':
+        await sleep(step.ms);
+        break;
+      case 'text':
+        app.workspace
+          .getActiveViewOfType(MarkdownView)
+          ?.editor.replaceSelection(step.text);
+        break;
+    }
+  }
+}
+
+function checkCondition(app: App, condition: MacroCondition): boolean {
+  const editor = app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+  switch (condition) {
+    case 'always':
+      return true;
+    case 'selection':
+      return Boolean(editor?.somethingSelected());
+    case 'no-selection':
+      return !editor?.somethingSelected();
+    case 'editor':
+      return Boolean(editor);
+  }
+}
+
+/**
+ * Short human-readable description of a step for the settings UI.
+ */
+export function describeMacroStep(app: App, step: MacroStep): string {
+  switch (step.type) {
+    case 'command':
+      return (
+        app.commands?.findCommand?.(step.commandId)?.name || step.commandId
+      );
+    case 'delay':
+      return `Wait ${step.ms} ms`;
+    case 'text':
+      return `Insert "${step.text}"`;
+  }
+}
@@ -0,0 +1,301 @@
+import { App, setIcon } from 'obsidian';
+import MobilePlugin from '../main';
+import { Offset } from '../utils/gesture-handler';
+
+/**
+ * A command placed on the radial menu.
+ *
+ * @property commandId - Command to run when the slot is released on; may be
+ *   empty for slots that only open a sub-ring.
+ * @property icon - Icon override; defaults to the command's icon.
+ * @property slots - Sub-ring shown further out while this slot is selected.
+ */
+export interface RadialSlot {
+  commandId: string;
+  icon?: string;
+  slots?: RadialSlot[];
+}
+
+/** The ring is laid out for at least this many slots so few slots stay apart. */
+export const RADIAL_MIN_SLOTS = 4;
+/** Most slots that fit on one ring. */
+export const RADIAL_MAX_SLOTS = 8;
+
+const SLOT_RADIUS = 80;
+const SUB_SLOT_RADIUS = 150;
+/** Distance from the center past which the sub-ring is selected from. */
+const SUB_RING_BOUNDARY = 115;
+const DEAD_ZONE = 30;
+/** Angle between neighbouring sub-ring slots, in degrees. */
+const SUB_SLOT_ANGLE = 32;
+/** Movement needed before a slot can be selected by sliding. */
+const MOVE_TOLERANCE = 10;
+
+/**
+ * A ring of commands that opens around an element, usually the FAB.
+ *
+ * Slots are picked by sliding the finger towards them and run on release.
+ * Slots with a sub-ring fan their own slots out further along the same
+ * direction. Releasing without having moved leaves the menu open so slots
+ * can be tapped instead; tapping outside the ring closes it.
+ */
+export class RadialMenu {
+  private menuEl: HTMLElement | null = null;
+  private center = new Offset(0, 0);
+  private origin = new Offset(0, 0);
+  private moved = false;
+  private openedAt = 0;
+  private active: RadialSlot | null = null;
+  private activeSub: RadialSlot | null = null;
+  private slotEls = new Map<RadialSlot, HTMLElement>();
+  private subRingEl: HTMLElement | null = null;
+  private labelEl!: HTMLElement;
+
+  constructor(
+    private app: App,
+    private plugin: MobilePlugin,
+    private slots: RadialSlot[],
+  ) {}
+
+  /**
+   * Opens the menu centered on an element, moved inwards if the ring would
+   * not fit on screen.
+   */
+  open(anchorEl: HTMLElement): void {
+    const rect = anchorEl.getBoundingClientRect();
+    this.origin = new Offset(
+      rect.left + rect.width / 2,
+      rect.top + rect.height / 2,
+    );
+    const margin =
+      (this.slots.some(slot => slot.slots?.length)
+        ? SUB_SLOT_RADIUS
+        : SLOT_RADIUS) + 32;
+    const body = window.activeDocument.body;
+    this.center = new Offset(
+      Math.min(Math.max(this.origin.x, margin), body.clientWidth - margin),
+      Math.min(Math.max(this.origin.y, margin), body.clientHeight - margin),
+    );
+    this.moved = false;
+    this.openedAt = Date.now();
+
+    this.menuEl = body.createDiv('mobile-radial-menu');
+    this.menuEl.addEventListener('click', e => {
+      // Ignore the click that may follow the long press itself
+      if (e.target === this.menuEl && Date.now() - this.openedAt > 300) {
+        this.close();
+      }
+    });
+    this.labelEl = this.menuEl.createDiv('mobile-radial-label');
+    this.place(this.labelEl, this.center);
+
+    this.slots.forEach(slot => {
+      const el = this.createSlot(
+        this.menuEl!,
+        slot,
+        RadialMenu.polar(this.center, SLOT_RADIUS, this.slotAngle(slot)),
+      );
+      this.slotEls.set(slot, el);
+    });
+
+    const doc = window.activeDocument;
+    doc.addEventListener('touchmove', this.onMove, { passive: false });
+    doc.addEventListener('mousemove', this.onMove);
+    doc.addEventListener('touchend', this.onRelease);
+    doc.addEventListener('mouseup', this.onRelease);
+    this.plugin.hapticFeedback(20);
+  }
+
+  close(): void {
+    const doc = window.activeDocument;
+    doc.removeEventListener('touchmove', this.onMove);
+    doc.removeEventListener('mousemove', this.onMove);
+    doc.removeEventListener('touchend', this.onRelease);
+    doc.removeEventListener('mouseup', this.onRelease);
+    this.menuEl?.remove();
+    this.menuEl = null;
+    this.slotEls.clear();
+    this.subRingEl = null;
+  }
+
+  private onMove = (e: MouseEvent | TouchEvent): void => {
+    const point = RadialMenu.pointer(e);
+    if (!point) return;
+    e.preventDefault();
+    if (!this.moved && point.distanceTo(this.origin) < MOVE_TOLERANCE) return;
+    this.moved = true;
+    this.select(point);
+  };
+
+  private onRelease = (): void => {
+    if (!this.moved) return;
+    const slot = this.activeSub ?? this.active;
+    if (slot?.commandId) this.run(slot);
+    else if (!slot) this.close();
+  };
+
+  /**
+   * Highlights the slot in the direction of the pointer, and the sub-ring
+   * slot once the pointer is past the main ring.
+   */
+  private select(point: Offset): void {
+    const delta = point.subtract(this.center);
+    const distance = Math.hypot(delta.x, delta.y);
+    const angle = (Math.atan2(delta.y, delta.x) * 180) / Math.PI;
+
+    let active = this.active;
+    let activeSub: RadialSlot | null = null;
+    if (distance < DEAD_ZONE) {
+      active = null;
+    } else if (distance < SUB_RING_BOUNDARY || !active) {
+      active = this.slotAt(angle);
+    } else if (active.slots?.length) {
+      activeSub = this.subSlotAt(active, angle);
+    }
+    // Past the ring, a slot without a sub-ring simply stays selected
+
+    if (active !== this.active) {
+      this.setActive(active);
+      if (active) this.plugin.hapticFeedback(5);
+    }
+    if (activeSub !== this.activeSub) {
+      this.activeSub = activeSub;
+      this.subRingEl
+        ?.querySelectorAll('.mobile-radial-slot')
+        .forEach((el, index) =>
+          el.toggleClass(
+            'is-active',
+            this.active?.slots?.[index] === activeSub,
+          ),
+        );
+      if (activeSub) this.plugin.hapticFeedback(5);
+    }
+    const labelSlot = this.activeSub ?? this.active;
+    this.labelEl.setText(labelSlot ? this.commandName(labelSlot) : '');
+  }
+
+  private renderSubRing(): void {
+    this.subRingEl?.remove();
+    this.subRingEl = null;
+    this.activeSub = null;
+    const subSlots = this.active?.slots;
+    if (!this.menuEl || !this.active || !subSlots?.length) return;
+    this.subRingEl = this.menuEl.createDiv('mobile-radial-sub-ring');
+    const parent = this.active;
+    subSlots.forEach((slot, index) =>
+      this.createSlot(
+        this.subRingEl!,
+        slot,
+        RadialMenu.polar(
+          this.center,
+          SUB_SLOT_RADIUS,
+          this.subSlotAngle(parent, index),
+        ),
+      ).addClass('mod-sub'),
+    );
+  }
+
+  private createSlot(
+    parentEl: HTMLElement,
+    slot: RadialSlot,
+    position: Offset,
+  ): HTMLElement {
+    const el = parentEl.createDiv('mobile-radial-slot');
+    setIcon(el, this.slotIcon(slot));
+    el.setAttribute('aria-label', this.commandName(slot));
+    this.place(el, position);
+    el.addEventListener('click', () => {
+      if (slot.commandId) return this.run(slot);
+      // Tapping a slot that only holds a sub-ring opens it
+      this.setActive(slot);
+    });
+    return el;
+  }
+
+  private setActive(slot: RadialSlot | null): void {
+    if (this.active) this.slotEls.get(this.active)?.removeClass('is-active');
+    this.active = slot;
+    if (slot) this.slotEls.get(slot)?.addClass('is-active');
+    this.renderSubRing();
+  }
+
+  private run(slot: RadialSlot): void {
+    this.plugin.hapticFeedback(20);
+    this.close();
+    this.app.commands?.executeCommandById(slot.commandId);
+  }
+
+  /** Angle between neighbouring slots of the main ring, in degrees. */
+  private get step(): number {
+    return 360 / Math.max(RADIAL_MIN_SLOTS, this.slots.length);
+  }
+
+  /** Direction of a main ring slot, in degrees clockwise from the right. */
+  private slotAngle(slot: RadialSlot): number {
+    return this.slots.indexOf(slot) * this.step - 90;
+  }
+
+  /** Sub-ring slots fan out around the direction of their parent. */
+  private subSlotAngle(parent: RadialSlot, index: number): number {
+    const count = parent.slots?.length ?? 0;
+    return this.slotAngle(parent) + (index - (count - 1) / 2) * SUB_SLOT_ANGLE;
+  }
+
+  private slotAt(angle: number): RadialSlot | null {
+    // The first slot points up
+    const index = Math.round(RadialMenu.normalize(angle + 90) / this.step);
+    return this.slots[index % (360 / this.step)] ?? null;
+  }
+
+  private subSlotAt(parent: RadialSlot, angle: number): RadialSlot | null {
+    return (
+      parent.slots?.find((_, index) => {
+        const diff = RadialMenu.normalize(
+          angle - this.subSlotAngle(parent, index) + 180,
+        );
+        return Math.abs(diff - 180) < SUB_SLOT_ANGLE / 2;
+      }) ?? null
+    );
+  }
+
+  private slotIcon(slot: RadialSlot): string {
+    if (slot.icon) return slot.icon;
+    if (!slot.commandId) return 'more-horizontal';
+    return (
+      this.plugin.settings.commandIcons[slot.commandId] ||
+      this.app.commands?.commands[slot.commandId]?.icon ||
+      'circle-question-mark'
+    );
+  }
+
+  private commandName(slot: RadialSlot): string {
+    return (
+      this.app.commands?.commands[slot.commandId]?.name ||
+      slot.commandId ||
+      'More'
+    );
+  }
+
+  private place(el: HTMLElement, position: Offset): void {
+    el.setCssStyles({ left: `${position.x}px`, top: `${position.y}px` });
+  }
+
+  private static polar(center: Offset, radius: number, angle: number): Offset {
+    const radians = (angle * Math.PI) / 180;
+    return new Offset(
+      center.x + radius * Math.cos(radians),
+      center.y + radius * Math.sin(radians),
+    );
+  }
+
+  /** Wraps an angle in degrees into 0..360. */
+  private static normalize(angle: number): number {
+    return ((angle % 360) + 360) % 360;
+  }
+
+  private static pointer(e: MouseEvent | TouchEvent): Offset | null {
+    if (e instanceof MouseEvent) return new Offset(e.clientX, e.clientY);
+    const touch = e.touches[0];
+    return touch ? new Offset(touch.clientX, touch.clientY) : null;
+  }
+}
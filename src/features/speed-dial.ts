@@ -0,0 +1,105 @@
+import { App, setIcon } from 'obsidian';
+import MobilePlugin from '../main';
+import { ToolbarConfig } from '../settings';
+
+/** Gap between the FAB and the first mini-button. */
+const FAB_GAP = 12;
+/** Half the width of a mini-button, to center it on the FAB. */
+const BUTTON_HALF_WIDTH = 20;
+
+/**
+ * A stack of mini-buttons that fans out from the FAB, one per command of a
+ * toolbar from the toolbar library.
+ *
+ * The stack opens away from the nearest top or bottom edge, with labels on
+ * the side facing the middle of the view. Running a command, tapping
+ * outside or drawing a gesture closes it.
+ */
+export class SpeedDial {
+  private dialEl: HTMLElement | null = null;
+
+  constructor(
+    private app: App,
+    private plugin: MobilePlugin,
+    private fabEl: HTMLElement,
+    private containerEl: HTMLElement,
+  ) {}
+
+  get isOpen(): boolean {
+    return this.dialEl !== null;
+  }
+
+  toggle(toolbar: ToolbarConfig): void {
+    if (this.isOpen) this.close();
+    else this.open(toolbar);
+  }
+
+  open(toolbar: ToolbarConfig): void {
+    this.close();
+    const fab = this.fabEl.getBoundingClientRect();
+    const container = this.containerEl.getBoundingClientRect();
+    const fabX = fab.left + fab.width / 2;
+    const opensUp =
+      fab.top + fab.height / 2 > container.top + container.height / 2;
+    const labelsLeft = fabX > container.left + container.width / 2;
+
+    this.dialEl = this.containerEl.createDiv('mobile-speed-dial');
+    this.dialEl.toggleClass('mod-up', opensUp);
+    this.dialEl.toggleClass('mod-labels-left', labelsLeft);
+    this.dialEl.setCssStyles(
+      opensUp
+        ? { bottom: `${container.bottom - fab.top + FAB_GAP}px` }
+        : { top: `${fab.bottom - container.top + FAB_GAP}px` },
+    );
+    this.dialEl.setCssStyles(
+      labelsLeft
+        ? { right: `${container.right - fabX - BUTTON_HALF_WIDTH}px` }
+        : { left: `${fabX - container.left - BUTTON_HALF_WIDTH}px` },
+    );
+
+    const commands = this.app.commands?.commands ?? {};
+    toolbar.commands.forEach(commandId => {
+      const command = commands[commandId];
+      const itemEl = this.dialEl!.createDiv('mobile-speed-dial-item');
+      itemEl.createDiv({
+        cls: 'mobile-speed-dial-label',
+        text: command?.name ?? commandId,
+      });
+      const buttonEl = itemEl.createEl('button', 'mobile-speed-dial-button');
+      setIcon(
+        buttonEl,
+        this.plugin.settings.commandIcons[commandId] ||
+          command?.icon ||
+          'circle-question-mark',
+      );
+      itemEl.addEventListener('click', () => {
+        this.plugin.hapticFeedback(10);
+        this.close();
+        this.app.commands?.executeCommandById(commandId);
+      });
+    });
+
+    this.fabEl.addClass('is-speed-dial-open');
+    window.activeDocument.addEventListener('pointerdown', this.onOutsideTap, {
+      capture: true,
+    });
+  }
+
+  close(): void {
+    window.activeDocument.removeEventListener(
+      'pointerdown',
+      this.onOutsideTap,
+      { capture: true },
+    );
+    this.fabEl.removeClass('is-speed-dial-open');
+    this.dialEl?.remove();
+    this.dialEl = null;
+  }
+
+  private onOutsideTap = (e: PointerEvent): void => {
+    const target = e.target as Node;
+    // Taps on the FAB toggle the dial themselves
+    if (this.dialEl?.contains(target) || this.fabEl.contains(target)) return;
+    this.close();
+  };
+}
@@ -0,0 +1,309 @@
+import { Editor, Menu } from 'obsidian';
+import MobilePlugin from '../main';
+
+/**
+ * What a toolbar button does besides running a command.
+ *
+ * - `snippet`: inserts `text`, where `{{cursor}}` marks the cursor position
+ *   and `{{selection}}` is replaced by the selected text
+ * - `wrap`: wraps the selection in `prefix` and `suffix`
+ * - `uri`: opens `uri`, e.g. a web page or another app
+ * - `note`: opens the note at `path`
+ * - `toolbar`: opens the commands of another toolbar in a menu
+ * - `toggle`: runs `onCommand`, then `offCommand` on the next press, and
+ *   shows whether it is on. The state is kept until the app restarts
+ */
+export type ToolbarButtonAction =
+  | { type: 'snippet'; text: string }
+  | { type: 'wrap'; prefix: string; suffix: string }
+  | { type: 'uri'; uri: string }
+  | { type: 'note'; path: string }
+  | { type: 'toolbar'; toolbarId: string }
+  | {
+      type: 'toggle';
+      onCommand: string;
+      offCommand?: string;
+    };
+
+export type ToolbarButtonType = ToolbarButtonAction['type'];
+
+/**
+ * A toolbar button with its own action, exposed as a
+ * `mobile:button-<id>` command so it can be placed in toolbars (and
+ * anywhere else a command can) and given an icon like any command.
+ */
+export type ToolbarButton = { id: string; name: string } & ToolbarButtonAction;
+
+export const toolbarButtonTypeDesc: Record<ToolbarButtonType, string> = {
+  snippet: 'Insert text',
+  wrap: 'Wrap selection',
+  uri: 'Open link',
+  note: 'Open note',
+  toolbar: 'Sub-toolbar',
+  toggle: 'Toggle',
+};
+
+const toolbarButtonIcons: Record<ToolbarButtonType, string> = {
+  snippet: 'text-cursor-input',
+  wrap: 'brackets',
+  uri: 'external-link',
+  note: 'file-text',
+  toolbar: 'panel-bottom-open',
+  toggle: 'toggle-left',
+};
+
+/** Default action when a button is created or its type changes. */
+export const defaultToolbarButtonActions: Record<
+  ToolbarButtonType,
+  ToolbarButtonAction
+> = {
+  snippet: { type: 'snippet', text: '{{cursor}}' },
+  wrap: { type: 'wrap', prefix: '', suffix: '' },
+  uri: { type: 'uri', uri: '' },
+  note: { type: 'note', path: '' },
+  toolbar: { type: 'toolbar', toolbarId: '' },
+  toggle: { type: 'toggle', onCommand: '' },
+};
+
+/** Ids of toggle buttons that are on */
+const activeToggles = new Set<string>();
+
+/**
+ * Whether a toggle button is on, i.e. its `onCommand` ran last.
+ */
+export function isToggleActive(button: ToolbarButton): boolean {
+  return button.type === 'toggle' && activeToggles.has(button.id);
+}
+
+export const toolbarButtonCommandId = (button: ToolbarButton) =>
+  `button-${button.id}`;
+
+/**
+ * The button behind a command id, if the command is a toolbar button.
+ */
+export function findToolbarButton(
+  plugin: MobilePlugin,
+  commandId: string,
+): ToolbarButton | undefined {
+  return plugin.settings.toolbarButtons.find(
+    button => `mobile:${toolbarButtonCommandId(button)}` === commandId,
+  );
+}
+
+/**
+ * Whether a command is run from anywhere besides the command lists of
+ * toolbars: gestures, FAB events, modes and profiles, macros, toggle
+ * buttons or toolbar entry actions.
+ */
+export function isCommandReferenced(
+  plugin: MobilePlugin,
+  commandId: string,
+): boolean {
+  const { settings } = plugin;
+  return [
+    ...settings.gestureCommands.map(g => g.commandId),
+    ...Object.values(settings.MobileCMDEvents),
+    ...settings.fabModes.flatMap(m => [
+      m.press,
+      m.holdStart,
+      m.holdEnd,
+      m.longpress,
+    ]),
+    ...Object.values(settings.fabProfiles).flatMap(p => [
+      p?.press,
+      p?.longpress,
+    ]),
+    ...settings.macros.flatMap(m =>
+      m.steps.map(step => (step.type === 'command' ? step.commandId : '')),
+    ),
+    ...settings.toolbarButtons.flatMap(b =>
+      b.type === 'toggle' ? [b.onCommand, b.offCommand] : [],
+    ),
+    ...settings.toolbars.flatMap(t =>
+      Object.values(t.actions ?? {}).flatMap(a => [
+        ...(a.longPress ?? []),
+        a.swipeUp,
+      ]),
+    ),
+  ].includes(commandId);
+}
+
+/**
+ * Registers a command for every configured toolbar button.
+ */
+export function registerToolbarButtonCommands(plugin: MobilePlugin) {
+  plugin.settings.toolbarButtons.forEach(button =>
+    registerToolbarButtonCommand(plugin, button),
+  );
+}
+
+/**
+ * Registers (or re-registers, e.g. after a rename) the command for a
+ * toolbar button.
+ */
+export function registerToolbarButtonCommand(
+  plugin: MobilePlugin,
+  button: ToolbarButton,
+) {
+  plugin.addCommand({
+    id: toolbarButtonCommandId(button),
+    name: `Button: ${button.name}`,
+    icon: toolbarButtonIcons[button.type],
+    callback: () => runToolbarButton(plugin, button),
+  });
+}
+
+/**
+ * Runs a button's action. Sub-toolbars open next to `anchorEl` if given,
+ * otherwise in the middle of the screen.
+ */
+export function runToolbarButton(
+  plugin: MobilePlugin,
+  button: ToolbarButton,
+  anchorEl?: HTMLElement,
+): void {
+  const { app } = plugin;
+  const editor = app.workspace.activeEditor?.editor;
+  switch (button.type) {
+    case 'snippet':
+      if (editor) insertSnippet(editor, button.text);
+      break;
+    case 'wrap':
+      if (editor) wrapSelection(editor, button.prefix, button.suffix);
+      break;
+    case 'uri':
+      if (button.uri) window.open(button.uri);
+      break;
+    case 'note':
+      if (button.path) {
+        void app.workspace.openLinkText(
+          button.path,
+          app.workspace.getActiveFile()?.path ?? '',
+        );
+      }
+      break;
+    case 'toolbar':
+      openSubToolbar(plugin, button.toolbarId, anchorEl);
+      break;
+    case 'toggle': {
+      if (!button.onCommand) break;
+      const active = activeToggles.has(button.id);
+      const commandId = active
+        ? button.offCommand || button.onCommand
+        : button.onCommand;
+      if (active) activeToggles.delete(button.id);
+      else activeToggles.add(button.id);
+      app.commands?.executeCommandById(commandId);
+      break;
+    }
+  }
+}
+
+/**
+ * Runs a command, or the toolbar button behind it directly so its
+ * sub-toolbar opens next to `anchorEl`.
+ */
+export function runToolbarCommand(
+  plugin: MobilePlugin,
+  commandId: string,
+  anchorEl?: HTMLElement,
+): void {
+  const button = findToolbarButton(plugin, commandId);
+  if (button) runToolbarButton(plugin, button, anchorEl);
+  else plugin.app.commands?.executeCommandById(commandId);
+}
+
+/**
+ * Short human-readable description of a button for the settings UI.
+ */
+export function describeToolbarButton(button: ToolbarButton): string {
+  switch (button.type) {
+    case 'snippet':
+      return `Insert "${button.text}"`;
+    case 'wrap':
+      return `Wrap in ${button.prefix} … ${button.suffix}`;
+    case 'uri':
+      return `Open ${button.uri}`;
+    case 'note':
+      return `Open ${button.path}`;
+    case 'toolbar':
+      return `Open toolbar ${button.toolbarId}`;
+    case 'toggle':
+      return [button.onCommand, button.offCommand].filter(Boolean).join(' / ');
+  }
+}
+
+function insertSnippet(editor: Editor, text: string): void {
+  const from = editor.posToOffset(editor.getCursor('from'));
+  const expanded = text.replace(/\{\{selection\}\}/g, editor.getSelection());
+  const cursor = expanded.indexOf('{{cursor}}');
+  const inserted = expanded.replace(/\{\{cursor\}\}/g, '');
+  editor.replaceSelection(inserted);
+  editor.setCursor(
+    editor.offsetToPos(from + (cursor === -1 ? inserted.length : cursor)),
+  );
+}
+
+function wrapSelection(editor: Editor, prefix: string, suffix: string): void {
+  const from = editor.posToOffset(editor.getCursor('from'));
+  const selection = editor.getSelection();
+  editor.replaceSelection(`${prefix}${selection}${suffix}`);
+  // Keep the wrapped text selected, or the cursor between an empty pair
+  const start = from + prefix.length;
+  editor.setSelection(
+    editor.offsetToPos(start),
+    editor.offsetToPos(start + selection.length),
+  );
+}
+
+/**
+ * Shows the commands of another toolbar in a menu.
+ */
+function openSubToolbar(
+  plugin: MobilePlugin,
+  toolbarId: string,
+  anchorEl?: HTMLElement,
+): void {
+  const toolbar = plugin.getToolbar(toolbarId);
+  if (toolbar) showCommandMenu(plugin, toolbar.commands, anchorEl);
+}
+
+/**
+ * Shows commands in a menu next to `anchorEl`, or in the middle of the
+ * screen.
+ */
+export function showCommandMenu(
+  plugin: MobilePlugin,
+  commandIds: string[],
+  anchorEl?: HTMLElement,
+): void {
+  const commands = plugin.app.commands?.commands ?? {};
+  const menu = new Menu();
+  commandIds.forEach(commandId => {
+    const command = commands[commandId];
+    if (!command) return;
+    menu.addItem(item =>
+      item
+        .setTitle(command.name)
+        .setIcon(
+          plugin.settings.commandIcons[commandId] ||
+            command.icon ||
+            'circle-question-mark',
+        )
+        .onClick(() => {
+          plugin.hapticFeedback(10);
+          // Nested sub-toolbars open from the same anchor
+          runToolbarCommand(plugin, commandId, anchorEl);
+        }),
+    );
+  });
+  if (anchorEl) {
+    const rect = anchorEl.getBoundingClientRect();
+    menu.showAtPosition({ x: rect.left, y: rect.top });
+  } else {
+    menu.showAtPosition({
+      x: window.innerWidth / 2,
+      y: window.innerHeight / 2,
+    });
+  }
+}
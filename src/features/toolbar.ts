@@ -6,17 +6,60 @@ import {
   ViewPlugin,
   ViewUpdate,
 } from '@codemirror/view';
+import { App, ButtonComponent, Editor, ExtraButtonComponent } from 'obsidian';
+import { ContextDetector } from '../api';
 import {
-  App,
-  ButtonComponent,
-  Editor,
-  ExtraButtonComponent,
-  MarkdownView,
-} from 'obsidian';
+  findToolbarButton,
+  isToggleActive,
+  runToolbarButton,
+  runToolbarCommand,
+  showCommandMenu,
+} from './toolbar-buttons';
 import MobilePlugin from '../main';
-import { ContextType, ToolbarConfig } from '../settings';
+import {
+  ContextBinding,
+  ContextType,
+  ToolbarConfig,
+  ToolbarEntryActions,
+} from '../settings';
 import { ToolbarEditor } from 'src/views/ToolbarEditor';
 
+/**
+ * How the toolbar arranges the sections of the merged toolbar.
+ * - strip: one row that scrolls sideways
+ * - rows: one row per section, a fixed number visible at once
+ * - pages: one page per section, swiped sideways with dots below
+ */
+export type ToolbarLayout = 'strip' | 'rows' | 'pages';
+
+export const toolbarLayoutDesc: Record<ToolbarLayout, string> = {
+  strip: 'Single row',
+  rows: 'One row per toolbar',
+  pages: 'One page per toolbar',
+};
+
+/**
+ * How the toolbar shows all commands once expanded by swiping up.
+ */
+export type ToolbarExpandedLayout = 'wrap' | 'grid';
+
+export const toolbarExpandedLayoutDesc: Record<ToolbarExpandedLayout, string> =
+  {
+    wrap: 'Wrap into rows',
+    grid: 'Grid sheet',
+  };
+
+/**
+ * What the toolbar does with buttons of commands that are unavailable at
+ * the cursor.
+ */
+export type UnavailableCommands = 'hide' | 'dim';
+
+export const unavailableCommandsDesc: Record<UnavailableCommands, string> = {
+  hide: 'Hide',
+  dim: 'Dim',
+};
+
 /**
  * Creates a CodeMirror 6 ViewPlugin that displays a context-aware toolbar at the bottom
  * when text is selected or cursor is in a specific context.
@@ -53,7 +96,18 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
       app: App;
       plugin: MobilePlugin;
       activeToolbars: ToolbarConfig[] | null = null;
+      activeSections: ToolbarSection[] = [];
       currentToolbar: ToolbarConfig | null = null;
+      /** Buttons of plain commands, for marking active formats */
+      commandButtons = new Map<string, HTMLElement>();
+      /** Commands whose format is active, found along with the contexts */
+      activeCommands = new Set<string>();
+      /** Unavailable commands of the rendered toolbar, to re-render on change */
+      currentUnavailable = '';
+      /** Command availability, valid while the document and selection are */
+      availability = new Map<string, boolean>();
+      availabilityState: Pick<EditorView['state'], 'doc' | 'selection'> | null =
+        null;
       view!: EditorView;
 
       constructor(view: EditorView) {
@@ -66,51 +120,6 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
         this.updateTooltip(view);
       }
 
-      /**
-       * Add swipe gesture to expand toolbar
-       */
-      addSwipeToExpandListener(toolbar: HTMLElement): void {
-        const SWIPE_THRESHOLD_PX = 30;
-
-        let touchStartY = 0;
-        let hasToggled = false;
-
-        plugin.elementsToCleanup.get(toolbar)?.();
-
-        const handleTouchStart = (e: TouchEvent): void => {
-          touchStartY = e.touches[0].clientY;
-          hasToggled = false;
-        };
-        toolbar.addEventListener('touchstart', handleTouchStart);
-
-        const handleTouchMove = (e: TouchEvent): void => {
-          const touchY = e.touches[0].clientY;
-          const deltaY = touchStartY - touchY;
-
-          // If swiped up more than threshold and haven't toggled yet
-          if (deltaY > SWIPE_THRESHOLD_PX && !hasToggled) {
-            // Toggle expanded state
-            if (toolbar.classList.contains('is-expanded')) {
-              toolbar.classList.remove('is-expanded');
-            } else {
-              toolbar.classList.add('is-expanded');
-              this.plugin.hapticFeedback(15);
-            }
-            // Mark that we've toggled to prevent multiple toggles in same gesture
-            hasToggled = true;
-          }
-        };
-
-        toolbar.addEventListener('touchmove', handleTouchMove, {
-          passive: true,
-        });
-
-        this.plugin.elementsToCleanup.set(toolbar, () => {
-          toolbar.removeEventListener('touchstart', handleTouchStart);
-          toolbar.removeEventListener('touchmove', handleTouchMove);
-        });
-      }
-
       update(update: ViewUpdate) {
         if (
           update.selectionSet ||
@@ -135,59 +144,25 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
       hasContext(view: EditorView, pos: number): boolean {
         const activeContexts = this.getMatchingContexts(view, pos);
         // Check if any binding matches the current context
-        return this.plugin.settings.contextBindings.some(binding =>
-          activeContexts.has(binding.contextType),
-        );
+        return this.plugin
+          .getContextBindings()
+          .some(binding => activeContexts.has(binding.contextType));
       }
 
       getActiveToolbar(view: EditorView, pos: number): ToolbarConfig | null {
-        const activeContexts = this.getMatchingContexts(view, pos);
-        // Collect all matching toolbars and concatenate their commands
-
-        const seenCommands = new Set<string>();
-
-        // Concatenate commands from all matching toolbars, removing duplicates
-        const combinedCommands: string[] = Array.from(activeContexts.keys())
-          .map(contextType =>
-            this.plugin.settings.contextBindings
-              .filter(binding => binding.contextType === contextType)
-              .map(
-                binding =>
-                  this.plugin.settings.toolbars.find(
-                    t => t.id === binding.toolbarId,
-                  )?.commands,
-              )
-              .filter(t => t !== undefined),
-          )
-          .flat(2)
-          .filter(cmd => {
-            if (seenCommands.has(cmd)) {
-              return false;
-            } else {
-              seenCommands.add(cmd);
-              return true;
-            }
-          });
-
-        this.activeToolbars =
-          Array.from(activeContexts.keys())
-            .map(contextType =>
-              this.plugin.settings.contextBindings
-                .filter(binding => binding.contextType === contextType)
-                .map(binding =>
-                  this.plugin.settings.toolbars.find(
-                    t => t.id === binding.toolbarId,
-                  ),
-                )
-                .filter(t => t !== undefined),
-            )
-            .flat() || null;
-
-        // Return a virtual toolbar with combined commands
+        this.activeSections = getToolbarSections(
+          this.plugin.getContextBindings(),
+          this.getMatchingContexts(view, pos),
+          id => this.plugin.getToolbar(id),
+        );
+        this.activeToolbars = this.activeSections.map(s => s.toolbar);
+
+        // Return a virtual toolbar with combined commands; its id changes
+        // with the sections so separators move when they do
         return {
-          id: 'combined',
+          id: `combined:${this.activeToolbars.map(t => t.id).join('+')}`,
           name: 'Combined toolbar',
-          commands: combinedCommands,
+          commands: this.activeSections.flatMap(s => s.commands),
         };
       }
 
@@ -215,19 +190,18 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
         // If the command has an editorCheckCallback, we need to check with editor context
         if (command.editorCheckCallback) {
           try {
-            // Get the active MarkdownView to access the editor
-            const activeView =
-              this.app.workspace.getActiveViewOfType(MarkdownView);
-            if (activeView && activeView.editor) {
-              return (
-                command.editorCheckCallback(
-                  true,
-                  activeView.editor,
-                  activeView,
-                ) || false
-              );
-            }
-            return false;
+            // The active editor also covers canvas cards, which have no
+            // MarkdownView
+            const activeEditor = this.app.workspace.activeEditor;
+            // Without an editor to ask, don't hide the command
+            if (!activeEditor?.editor) return true;
+            return (
+              command.editorCheckCallback(
+                true,
+                activeEditor.editor,
+                activeEditor,
+              ) || false
+            );
           } catch (e) {
             console.warn(`Command ${commandId} editorCheckCallback error:`, e);
             return false;
@@ -238,76 +212,40 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
         return true;
       }
 
-      getMatchingContexts(view: EditorView, pos: number): Set<ContextType> {
-        const contexts = new Set<ContextType>();
-        if (!view.state.selection.main.empty) {
-          contexts.add('selection');
+      /**
+       * Checks which commands are unavailable, caching the results until
+       * the document or selection changes
+       */
+      getUnavailableCommands(
+        view: EditorView,
+        commandIds: string[],
+      ): Set<string> {
+        const { doc, selection } = view.state;
+        const cached = this.availabilityState;
+        if (!cached || cached.doc !== doc || !cached.selection.eq(selection)) {
+          this.availability.clear();
+          this.availabilityState = { doc, selection };
         }
-        contexts.add('default');
-
-        syntaxTree(view.state).iterate({
-          from: pos,
-          to: pos,
-          // Using SyntaxNodeRef type from CodeMirror but accepting broad type for compatibility
-          enter: (node: { type: { name: string } }) => {
-            const nodeName = node.type.name;
-
-            if (
-              nodeName === 'BulletList' ||
-              nodeName === 'OrderedList' ||
-              nodeName.startsWith('HyperMD-list-line_HyperMD-list-line-')
-            ) {
-              contexts.add('list');
-            }
-
-            if (nodeName === 'Task' || nodeName.includes('HyperMD-task-line')) {
-              contexts.add('task');
-            }
-
-            if (
-              nodeName.startsWith('ATXHeading') ||
-              nodeName === 'SetextHeading' ||
-              nodeName.startsWith('HyperMD-header')
-            ) {
-              contexts.add('heading');
-            }
-
-            if (
-              nodeName === 'FencedCode' ||
-              nodeName === 'CodeBlock' ||
-              nodeName.includes('HyperMD-codeblock')
-            ) {
-              contexts.add('code-block');
-            }
-
-            if (
-              nodeName === 'Table' ||
-              nodeName.startsWith('Table') ||
-              nodeName.includes('HyperMD-table')
-            ) {
-              contexts.add('table');
+        return new Set(
+          commandIds.filter(commandId => {
+            let available = this.availability.get(commandId);
+            if (available === undefined) {
+              available = this.isCommandAvailable(commandId, view);
+              this.availability.set(commandId, available);
             }
+            return !available;
+          }),
+        );
+      }
 
-            if (
-              nodeName === 'Blockquote' ||
-              nodeName === 'QuoteMark' ||
-              nodeName.includes('HyperMD-quote')
-            ) {
-              contexts.add('blockquote');
-            }
-
-            if (
-              nodeName === 'Link' ||
-              nodeName.includes('link') ||
-              nodeName.includes('URL') ||
-              nodeName.includes('HyperMD-link')
-            ) {
-              contexts.add('link');
-            }
-          },
-        });
-
-        return contexts;
+      getMatchingContexts(view: EditorView, pos: number): Set<ContextType> {
+        this.activeCommands = new Set();
+        return getMatchingContexts(
+          view,
+          pos,
+          this.plugin.getContextDetectors(),
+          this.activeCommands,
+        );
       }
 
       renderToolbar(view: EditorView) {
@@ -322,15 +260,33 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
 
         // Get the active toolbar based on context
         const activeToolbar = this.getActiveToolbar(view, selection.from);
+        const unavailable = this.getUnavailableCommands(
+          view,
+          activeToolbar?.commands ?? [],
+        );
+        if (
+          activeToolbar &&
+          this.plugin.settings.unavailableCommands === 'hide'
+        ) {
+          const isAvailable = (cmd: string) => !unavailable.has(cmd);
+          activeToolbar.commands = activeToolbar.commands.filter(isAvailable);
+          this.activeSections = this.activeSections
+            .map(s => ({ ...s, commands: s.commands.filter(isAvailable) }))
+            .filter(s => s.commands.length);
+        }
+        const unavailableKey = [...unavailable].join(' ');
 
         if (!activeToolbar || activeToolbar.commands.length === 0) {
+          // Render again once commands show up, even the same ones
+          this.currentToolbar = null;
           this.emptyElement();
           return;
         }
 
-        // see if toolbar is unchanged
+        // see if toolbar is unchanged, including which commands are available
         if (
           this.currentToolbar &&
+          this.currentUnavailable === unavailableKey &&
           this.currentToolbar.id === activeToolbar.id &&
           this.currentToolbar.commands.length ===
             activeToolbar.commands.length &&
@@ -339,10 +295,12 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
           )
         ) {
           // Toolbar is unchanged, no need to re-render
+          this.showActiveCommands();
           return;
         }
 
         this.currentToolbar = activeToolbar;
+        this.currentUnavailable = unavailableKey;
 
         // Find the workspace-leaf-content container to anchor the toolbar
         // This ensures the toolbar appears at the bottom of the editor container,
@@ -350,62 +308,69 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
         const tooltip = this.Element;
         if (!tooltip) return;
         tooltip.empty();
+        this.commandButtons.clear();
         // Add swipe-to-expand functionality
-        this.addSwipeToExpandListener(tooltip);
-
-        // Get all available commands
-        const commands = this.app.commands?.commands || {};
-
-        // Add command buttons (only show available commands)
-        activeToolbar.commands.forEach(commandId => {
-          const command = commands[commandId];
-          const iconToUse =
-            this.plugin.settings.commandIcons[commandId] ||
-            command?.icon ||
-            'circle-question-mark';
-
-          // Check if command is available in current context
-          if (command && tooltip) {
-            if (this.plugin.settings.useIcons && iconToUse) {
-              new ExtraButtonComponent(tooltip)
-                .setIcon(iconToUse)
-                .setTooltip(command?.name || commandId)
-                .onClick(() => {
-                  // Haptic feedback on button click
-                  this.plugin.hapticFeedback(10);
-                  // Execute the command
-                  this.app.commands?.executeCommandById?.(commandId);
-                  // Refocus editor to prevent focus loss
-                  view.focus();
-                });
-            } else {
-              new ButtonComponent(tooltip)
-                .setButtonText(command?.name || commandId)
-                .setTooltip(command?.name || commandId)
-                .onClick(e => {
-                  e.preventDefault();
-                  // Haptic feedback on button click
-                  this.plugin.hapticFeedback(10);
-                  // Execute the command
-                  this.app.commands?.executeCommandById?.(commandId);
-                  // Refocus editor to prevent focus loss
-                  view.focus();
-                });
-            }
-          }
-        });
-        if (tooltip)
-          new ExtraButtonComponent(tooltip)
+        addSwipeToExpandListener(this.plugin, tooltip);
+
+        // Add command buttons, one section per matching toolbar; unavailable
+        // commands are left out or dimmed
+        const lastSectionEl = renderToolbarSections(
+          this.plugin,
+          tooltip,
+          this.activeSections,
+          (parentEl, commandId, toolbar) =>
+            this.renderButton(parentEl, commandId, view, toolbar),
+          unavailable,
+        );
+        if (lastSectionEl)
+          new ExtraButtonComponent(lastSectionEl)
             .setIcon('pencil')
             .setTooltip('Edit toolbar')
             .onClick(() => {
-              if (this.activeToolbars)
-                new ToolbarEditor(
-                  this.app,
-                  this.plugin,
-                  this.activeToolbars[0],
-                ).open();
+              let toolbar = this.activeToolbars?.[0];
+              if (!toolbar) return;
+              const { toolbars } = this.plugin.settings;
+              if (!toolbars.includes(toolbar)) {
+                // A default toolbar from another plugin; edit a copy that
+                // replaces it instead
+                toolbar = structuredClone(toolbar);
+                toolbars.push(toolbar);
+                void this.plugin.saveSettings();
+              }
+              new ToolbarEditor(this.app, this.plugin, toolbar).open();
             });
+        this.showActiveCommands();
+      }
+
+      /**
+       * Highlights the buttons of formats active at the cursor, like bold
+       * or the current heading level
+       */
+      showActiveCommands(): void {
+        this.commandButtons.forEach((buttonEl, commandId) =>
+          buttonEl.toggleClass('is-active', this.activeCommands.has(commandId)),
+        );
+      }
+
+      renderButton(
+        tooltip: HTMLElement,
+        commandId: string,
+        view: EditorView,
+        toolbar?: ToolbarConfig,
+      ): HTMLElement | undefined {
+        const buttonEl = renderToolbarButton(
+          this.plugin,
+          tooltip,
+          commandId,
+          toolbar,
+          // Refocus editor to prevent focus loss
+          () => view.focus(),
+        );
+        // Toolbar buttons show their own state
+        if (buttonEl && !findToolbarButton(this.plugin, commandId)) {
+          this.commandButtons.set(commandId, buttonEl);
+        }
+        return buttonEl;
       }
 
       private removeTooltipIfExists() {
@@ -456,3 +421,469 @@ export function createToolbarExtension(app: App, plugin: MobilePlugin) {
     },
   );
 }
+
+/**
+ * Add swipe gesture to expand toolbar
+ */
+export function addSwipeToExpandListener(
+  plugin: MobilePlugin,
+  toolbar: HTMLElement,
+): void {
+  const SWIPE_THRESHOLD_PX = 30;
+
+  let touchStartY = 0;
+  let hasToggled = false;
+
+  plugin.elementsToCleanup.get(toolbar)?.();
+
+  const handleTouchStart = (e: TouchEvent): void => {
+    touchStartY = e.touches[0].clientY;
+    hasToggled = false;
+  };
+  toolbar.addEventListener('touchstart', handleTouchStart);
+
+  const handleTouchMove = (e: TouchEvent): void => {
+    const touchY = e.touches[0].clientY;
+    const deltaY = touchStartY - touchY;
+
+    // If swiped up more than threshold and haven't toggled yet
+    if (deltaY > SWIPE_THRESHOLD_PX && !hasToggled) {
+      // Toggle expanded state
+      if (toolbar.classList.contains('is-expanded')) {
+        toolbar.classList.remove('is-expanded');
+      } else {
+        toolbar.classList.add('is-expanded');
+        plugin.hapticFeedback(15);
+      }
+      // Mark that we've toggled to prevent multiple toggles in same gesture
+      hasToggled = true;
+    }
+  };
+
+  toolbar.addEventListener('touchmove', handleTouchMove, {
+    passive: true,
+  });
+
+  plugin.elementsToCleanup.set(toolbar, () => {
+    toolbar.removeEventListener('touchstart', handleTouchStart);
+    toolbar.removeEventListener('touchmove', handleTouchMove);
+  });
+}
+
+/**
+ * Lays out toolbar sections according to the toolbar layout
+ *
+ * @param plugin - The mobile plugin instance
+ * @param tooltip - The toolbar element
+ * @param sections - Sections to show
+ * @param renderButton - Adds the button of an entry to a section
+ * @param unavailable - Commands to dim
+ * @returns The element of the last section, to append to
+ */
+export function renderToolbarSections(
+  plugin: MobilePlugin,
+  tooltip: HTMLElement,
+  sections: ToolbarSection[],
+  renderButton: (
+    parentEl: HTMLElement,
+    commandId: string,
+    toolbar: ToolbarConfig,
+  ) => HTMLElement | undefined,
+  unavailable: Set<string> = new Set(),
+): HTMLElement {
+  const { settings } = plugin;
+  const layout = settings.toolbarLayout;
+  Object.keys(toolbarLayoutDesc).forEach(l =>
+    tooltip.toggleClass(`mod-${l}`, l === layout),
+  );
+  tooltip.toggleClass(
+    'mod-expanded-grid',
+    settings.toolbarExpandedLayout === 'grid',
+  );
+  tooltip.toggleClass('mod-icons', settings.useIcons);
+  tooltip.setCssProps({
+    '--mobile-toolbar-rows': String(settings.toolbarRows),
+  });
+
+  let parentEl = tooltip;
+  if (layout === 'rows') {
+    parentEl = tooltip.createDiv('mobile-plugin-toolbar-rows');
+  } else if (layout === 'pages') {
+    parentEl = tooltip.createDiv('mobile-plugin-toolbar-pages');
+  }
+
+  let sectionEl = parentEl;
+  sections.forEach((section, index) => {
+    if (index > 0 && layout === 'strip' && settings.toolbarSeparators) {
+      parentEl.createDiv('mobile-plugin-toolbar-separator');
+    }
+    sectionEl = parentEl.createDiv('mobile-plugin-toolbar-section');
+    section.commands.forEach(commandId =>
+      renderButton(sectionEl, commandId, section.toolbar)?.toggleClass(
+        'is-unavailable',
+        unavailable.has(commandId),
+      ),
+    );
+  });
+
+  if (layout === 'pages' && sections.length > 1) {
+    addPageDots(tooltip, parentEl);
+  }
+  return sectionEl;
+}
+
+/**
+ * Adds a dot per page that follows the scroll position and scrolls
+ * to its page when tapped
+ */
+function addPageDots(tooltip: HTMLElement, pagesEl: HTMLElement): void {
+  const dotsEl = tooltip.createDiv('mobile-plugin-toolbar-dots');
+  const dots = Array.from(pagesEl.children).map((_page, index) =>
+    dotsEl.createDiv('mobile-plugin-toolbar-dot', dot =>
+      dot.addEventListener('click', () =>
+        pagesEl.scrollTo({
+          left: index * pagesEl.clientWidth,
+          behavior: 'smooth',
+        }),
+      ),
+    ),
+  );
+  const updateDots = () => {
+    const page = Math.round(pagesEl.scrollLeft / (pagesEl.clientWidth || 1));
+    dots.forEach((dot, index) => dot.toggleClass('is-active', index === page));
+  };
+  pagesEl.addEventListener('scroll', updateDots, { passive: true });
+  updateDots();
+}
+
+/**
+ * Renders a toolbar entry as an icon or text button, with its long-press
+ * and swipe-up actions when it belongs to a toolbar.
+ *
+ * @param plugin - The mobile plugin instance
+ * @param parentEl - Element to add the button to
+ * @param commandId - Command of the entry
+ * @param toolbar - Toolbar the entry belongs to
+ * @param afterRun - Called after any of the entry's actions ran
+ * @returns The button element, or undefined if the command doesn't exist
+ */
+export function renderToolbarButton(
+  plugin: MobilePlugin,
+  parentEl: HTMLElement,
+  commandId: string,
+  toolbar: ToolbarConfig | undefined,
+  afterRun: () => void,
+): HTMLElement | undefined {
+  const command = plugin.app.commands?.commands[commandId];
+  const toolbarButton = findToolbarButton(plugin, commandId);
+  const name = toolbarButton?.name || command?.name || commandId;
+  const iconToUse =
+    plugin.settings.commandIcons[commandId] ||
+    command?.icon ||
+    'circle-question-mark';
+
+  // Check if command is available in current context
+  if (!command) return;
+  let buttonEl: HTMLElement;
+  const showState = () =>
+    buttonEl.toggleClass(
+      'is-active',
+      Boolean(toolbarButton && isToggleActive(toolbarButton)),
+    );
+  const run = () => {
+    // Haptic feedback on button click
+    plugin.hapticFeedback(10);
+    if (toolbarButton) {
+      // Run directly so sub-toolbars open next to the button
+      runToolbarButton(plugin, toolbarButton, buttonEl);
+      showState();
+    } else {
+      // Execute the command
+      plugin.app.commands?.executeCommandById?.(commandId);
+    }
+    afterRun();
+  };
+  if (plugin.settings.useIcons && iconToUse) {
+    buttonEl = new ExtraButtonComponent(parentEl)
+      .setIcon(iconToUse)
+      .setTooltip(name)
+      .onClick(run).extraSettingsEl;
+  } else {
+    buttonEl = new ButtonComponent(parentEl)
+      .setButtonText(name)
+      .setTooltip(name)
+      .onClick(e => {
+        e.preventDefault();
+        run();
+      }).buttonEl;
+  }
+  showState();
+  if (toolbar) {
+    addSecondaryActions(
+      plugin,
+      buttonEl,
+      () => toolbar.actions?.[commandId],
+      afterRun,
+    );
+  }
+  return buttonEl;
+}
+
+/**
+ * Adds the long-press and swipe-up actions of a toolbar entry. They
+ * are looked up when used, so edits apply without re-rendering.
+ */
+function addSecondaryActions(
+  plugin: MobilePlugin,
+  buttonEl: HTMLElement,
+  getActions: () => ToolbarEntryActions | undefined,
+  afterRun: () => void,
+): void {
+  const SWIPE_THRESHOLD_PX = 30;
+
+  buttonEl.addEventListener('contextmenu', e => {
+    const longPress = getActions()?.longPress ?? [];
+    if (!longPress.length) return;
+    e.preventDefault();
+    plugin.hapticFeedback(20);
+    if (longPress.length > 1) {
+      showCommandMenu(plugin, longPress, buttonEl);
+      return;
+    }
+    runToolbarCommand(plugin, longPress[0], buttonEl);
+    afterRun();
+  });
+
+  let touchStartY = 0;
+  let hasSwiped = false;
+  buttonEl.addEventListener(
+    'touchstart',
+    e => {
+      touchStartY = e.touches[0].clientY;
+      hasSwiped = false;
+    },
+    { passive: true },
+  );
+  buttonEl.addEventListener(
+    'touchmove',
+    e => {
+      const swipeUp = getActions()?.swipeUp;
+      if (!swipeUp) return;
+      // The button's swipe replaces expanding the toolbar
+      e.stopPropagation();
+      const deltaY = touchStartY - e.touches[0].clientY;
+      if (hasSwiped || deltaY <= SWIPE_THRESHOLD_PX) return;
+      hasSwiped = true;
+      plugin.hapticFeedback(15);
+      runToolbarCommand(plugin, swipeUp, buttonEl);
+      afterRun();
+    },
+    { passive: true },
+  );
+}
+
+/**
+ * One toolbar of the merged toolbar, with the commands not already shown
+ * by an earlier section.
+ */
+export interface ToolbarSection {
+  toolbar: ToolbarConfig;
+  commands: string[];
+}
+
+/**
+ * Picks the toolbars to show for the matching contexts and orders them
+ * into sections.
+ *
+ * Bindings are ordered by priority, highest first, then by their order in
+ * the settings. An exclusive binding hides the bindings of lower priority.
+ * Each toolbar appears once, and commands already shown by an earlier
+ * section are left out.
+ *
+ * @param bindings - Context bindings to choose from
+ * @param contexts - Contexts at the cursor
+ * @param getToolbar - Looks up a toolbar by id
+ */
+export function getToolbarSections(
+  bindings: ContextBinding[],
+  contexts: Set<ContextType>,
+  getToolbar: (id: string) => ToolbarConfig | undefined,
+): ToolbarSection[] {
+  const matching = bindings
+    .filter(binding => contexts.has(binding.contextType))
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  const exclusive = matching.find(binding => binding.exclusive);
+  const shown = exclusive
+    ? matching.filter(b => (b.priority ?? 0) >= (exclusive.priority ?? 0))
+    : matching;
+
+  const seenCommands = new Set<string>();
+  const sections: ToolbarSection[] = [];
+  for (const binding of shown) {
+    const toolbar = getToolbar(binding.toolbarId);
+    if (!toolbar || sections.some(s => s.toolbar === toolbar)) continue;
+    const commands = toolbar.commands.filter(cmd => !seenCommands.has(cmd));
+    commands.forEach(cmd => seenCommands.add(cmd));
+    if (commands.length) sections.push({ toolbar, commands });
+  }
+  return sections;
+}
+
+/**
+ * Commands toggling the inline formats of syntax nodes. Live preview names
+ * nodes after their tokens, e.g. `em_strong`; the Lezer names are included
+ * for the plain Markdown parser.
+ */
+const inlineFormatCommands: Record<string, string> = {
+  strong: 'editor:toggle-bold',
+  StrongEmphasis: 'editor:toggle-bold',
+  em: 'editor:toggle-italics',
+  Emphasis: 'editor:toggle-italics',
+  strikethrough: 'editor:toggle-strikethrough',
+  Strikethrough: 'editor:toggle-strikethrough',
+  highlight: 'editor:toggle-highlight',
+  'inline-code': 'editor:toggle-code',
+  InlineCode: 'editor:toggle-code',
+};
+
+/**
+ * Adds the commands of the inline format or heading level a syntax node
+ * stands for.
+ */
+function addNodeFormats(nodeName: string, active: Set<string>): void {
+  nodeName.split('_').forEach(token => {
+    const commandId = inlineFormatCommands[token];
+    if (commandId) active.add(commandId);
+  });
+
+  const heading = /(?:ATXHeading|SetextHeading|header-)([1-6])/.exec(nodeName);
+  if (heading) active.add(`editor:set-heading-${heading[1]}`);
+}
+
+/**
+ * Adds the commands of the list, checklist and quote state of a line, read
+ * from its markup.
+ */
+function addLineFormats(line: string, active: Set<string>): void {
+  if (/^\s*>/.test(line)) active.add('editor:toggle-blockquote');
+  const list = /^(?:\s*>)*\s*(?:([-*+])|\d+[.)])\s+(\[(.)\])?/.exec(line);
+  if (list) {
+    active.add(
+      list[1] ? 'editor:toggle-bullet-list' : 'editor:toggle-numbered-list',
+    );
+    if (list[3] && list[3] !== ' ') {
+      active.add('editor:toggle-checklist-status');
+    }
+  }
+}
+
+/**
+ * Detects the editing contexts at a position from the CodeMirror syntax tree.
+ *
+ * Always includes `default`, plus `selection` when text is selected,
+ * `canvas-card` in a canvas card, any structural context (list, table,
+ * heading, ...) the position sits in and any context whose detector
+ * matches.
+ *
+ * @param view - The editor view to inspect
+ * @param pos - Document position, usually the selection start
+ * @param detectors - Detectors for custom contexts
+ * @param activeCommands - If given, receives the formatting commands whose
+ *   format is active at the position, found in the same pass
+ * @returns The set of matching context types
+ */
+export function getMatchingContexts(
+  view: EditorView,
+  pos: number,
+  detectors: readonly ContextDetector[] = [],
+  activeCommands?: Set<string>,
+): Set<ContextType> {
+  const contexts = new Set<ContextType>();
+  if (!view.state.selection.main.empty) {
+    contexts.add('selection');
+  }
+  contexts.add('default');
+  if (view.dom.closest('.canvas-node')) {
+    contexts.add('canvas-card');
+  }
+
+  syntaxTree(view.state).iterate({
+    from: pos,
+    to: pos,
+    // Using SyntaxNodeRef type from CodeMirror but accepting broad type for compatibility
+    enter: (node: { type: { name: string }; to: number }) => {
+      const nodeName = node.type.name;
+      // A format ending at the cursor, e.g. right after **bold**, is left
+      if (activeCommands && node.to > pos) {
+        addNodeFormats(nodeName, activeCommands);
+      }
+
+      if (
+        nodeName === 'BulletList' ||
+        nodeName === 'OrderedList' ||
+        nodeName.startsWith('HyperMD-list-line_HyperMD-list-line-')
+      ) {
+        contexts.add('list');
+      }
+
+      if (nodeName === 'Task' || nodeName.includes('HyperMD-task-line')) {
+        contexts.add('task');
+      }
+
+      if (
+        nodeName.startsWith('ATXHeading') ||
+        nodeName === 'SetextHeading' ||
+        nodeName.startsWith('HyperMD-header')
+      ) {
+        contexts.add('heading');
+      }
+
+      if (
+        nodeName === 'FencedCode' ||
+        nodeName === 'CodeBlock' ||
+        nodeName.includes('HyperMD-codeblock')
+      ) {
+        contexts.add('code-block');
+      }
+
+      if (
+        nodeName === 'Table' ||
+        nodeName.startsWith('Table') ||
+        nodeName.includes('HyperMD-table')
+      ) {
+        contexts.add('table');
+      }
+
+      if (
+        nodeName === 'Blockquote' ||
+        nodeName === 'QuoteMark' ||
+        nodeName.includes('HyperMD-quote')
+      ) {
+        contexts.add('blockquote');
+      }
+
+      if (
+        nodeName === 'Link' ||
+        nodeName.includes('link') ||
+        nodeName.includes('URL') ||
+        nodeName.includes('HyperMD-link')
+      ) {
+        contexts.add('link');
+      }
+    },
+  });
+  if (activeCommands) {
+    addLineFormats(view.state.doc.lineAt(pos).text, activeCommands);
+  }
+
+  detectors.forEach(detector => {
+    try {
+      if (detector.detect(view, pos)) contexts.add(detector.id);
+    } catch (e) {
+      // A failing detector from another plugin shouldn't break the toolbar
+      console.warn(`Context detector ${detector.id} error:`, e);
+    }
+  });
+
+  return contexts;
+}
@@ -0,0 +1,133 @@
+import { App, Component, ItemView, MarkdownView, View } from 'obsidian';
+import MobilePlugin from '../main';
+import { ContextType } from '../settings';
+import {
+  addSwipeToExpandListener,
+  getToolbarSections,
+  renderToolbarButton,
+  renderToolbarSections,
+} from './toolbar';
+
+/**
+ * The context of a view that has no Markdown editor showing, or null for
+ * views that get the editor toolbar or none at all. Canvas cards are
+ * edited in a Markdown editor, so the editor toolbar covers them.
+ */
+export function getViewContext(view: View): ContextType | null {
+  if (view instanceof MarkdownView) {
+    return view.getMode() === 'preview' ? 'reading' : null;
+  }
+  switch (view.getViewType()) {
+    case 'pdf':
+      return 'pdf';
+    case 'image':
+      return 'image';
+  }
+  return null;
+}
+
+/**
+ * Shows toolbars in views without a Markdown editor, where the CodeMirror
+ * toolbar can't appear.
+ *
+ * Each reading mode, PDF and image view gets the toolbars bound to its
+ * context, laid out like the editor toolbar. On layout changes only views
+ * whose context changed are rebuilt, e.g. when a note switches to reading
+ * mode; settings changes rebuild all of them.
+ *
+ * @extends Component
+ */
+export class ViewToolbarHost extends Component {
+  private toolbars: Map<View, { el: HTMLElement; context: ContextType }> =
+    new Map();
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+  ) {
+    super();
+  }
+
+  onload(): void {
+    this.registerEvent(this.app.workspace.on('layout-change', this.update));
+    this.registerEvent(
+      this.app.workspace.on('active-leaf-change', this.update),
+    );
+    this.app.workspace.onLayoutReady(this.refresh);
+  }
+
+  onunload(): void {
+    this.removeToolbars();
+  }
+
+  /**
+   * Rebuilds the toolbars of all views
+   */
+  refresh = (): void => {
+    this.removeToolbars();
+    this.update();
+  };
+
+  /**
+   * Adds toolbars to views that lack one, and rebuilds or removes those of
+   * views that changed context or closed
+   */
+  private update = (): void => {
+    if (!this.plugin.settings.showToolbars) {
+      this.removeToolbars();
+      return;
+    }
+
+    const bindings = this.plugin.getContextBindings();
+    const views = new Set<View>();
+    this.app.workspace.iterateAllLeaves(({ view }) => {
+      const context = getViewContext(view);
+      if (!context || !(view instanceof ItemView)) return;
+      views.add(view);
+      const current = this.toolbars.get(view);
+      if (current?.context === context && current.el.isConnected) return;
+      this.removeToolbar(view);
+
+      const sections = getToolbarSections(bindings, new Set([context]), id =>
+        this.plugin.getToolbar(id),
+      );
+      if (!sections.length) return;
+
+      const el = view.contentEl.createDiv({
+        cls: ['mobile-plugin-toolbar', 'mod-view'],
+      });
+      addSwipeToExpandListener(this.plugin, el);
+      renderToolbarSections(
+        this.plugin,
+        el,
+        sections,
+        (parentEl, commandId, toolbar) =>
+          renderToolbarButton(
+            this.plugin,
+            parentEl,
+            commandId,
+            toolbar,
+            () => {},
+          ),
+      );
+      this.toolbars.set(view, { el, context });
+    });
+    this.toolbars.forEach((_, view) => {
+      if (!views.has(view)) this.removeToolbar(view);
+    });
+  };
+
+  private removeToolbar(view: View): void {
+    const toolbar = this.toolbars.get(view);
+    if (!toolbar) return;
+    // The swipe listener keeps a cleanup entry for the element
+    this.plugin.elementsToCleanup.get(toolbar.el)?.();
+    this.plugin.elementsToCleanup.delete(toolbar.el);
+    toolbar.el.remove();
+    this.toolbars.delete(view);
+  }
+
+  private removeToolbars(): void {
+    [...this.toolbars.keys()].forEach(view => this.removeToolbar(view));
+  }
+}
@@ -9,26 +9,46 @@ import {
   Notice,
   Platform,
   Plugin,
+  View,
   WorkspaceLeaf,
 } from 'obsidian';
+import { ContextDetector, MobilePluginAPI } from './api';
 import { registerCursorCommands } from './features/cursor-commands';
+import { customContextDetectors } from './features/custom-contexts';
+import { EditorGestureSurface } from './features/editor-gestures';
+import { KeyboardTracker } from './features/keyboard';
+import { getViewContext, ViewToolbarHost } from './features/view-toolbar';
 import { FABManager } from './features/fab';
+import { registerMacroCommands } from './features/macros';
+import { registerFABModeCommands, toggleFABMode } from './features/fab-modes';
+import { registerToolbarButtonCommands } from './features/toolbar-buttons';
 import { SwipePastSideSplit } from './features/sidebar-swipe';
 import { updateMobileTabGestures } from './features/tab-gestures';
 import { keepInTabletMode } from './features/tablet-mode';
-import { createToolbarExtension } from './features/toolbar';
 import {
+  createToolbarExtension,
+  getMatchingContexts,
+} from './features/toolbar';
+import {
+  ContextBinding,
+  ContextType,
   DEFAULT_SETTINGS,
   MobileCMDEvent,
   MobilePluginSettings,
   MobileSettingTab,
   settingsLeaf,
   settingsModel,
+  ToolbarConfig,
   VIEW_TYPE_SETTINGS,
 } from './settings';
+import { GestureContext, migrateGestureSamples } from './utils/gesture-handler';
 import { FilesSel } from './utils/InsertMultipleAttachments';
 import { SearchLeaf, VIEW_TYPE_SEARCH } from './views/SearchLeaf';
 import { TabsLeaf, VIEW_TYPE_TABS } from './views/TabsLeaf';
+import {
+  GesturePracticeLeaf,
+  VIEW_TYPE_GESTURE_PRACTICE,
+} from './views/GesturePracticeLeaf';
 
 // WakeLock API types (not in standard TS lib)
 interface WakeLockSentinel {
@@ -55,7 +75,12 @@ interface WakeLockNavigator {
 export default class MobilePlugin extends Plugin {
   elementsToCleanup: Map<HTMLElement, () => void> = new Map();
   settings: MobilePluginSettings = DEFAULT_SETTINGS;
+  /** Public API for other plugins, see `MobilePluginAPI`. */
+  api = new MobilePluginAPI(this);
   fabManager: FABManager | null = null;
+  editorGestures: EditorGestureSurface | null = null;
+  viewToolbars: ViewToolbarHost | null = null;
+  keyboard: KeyboardTracker | null = null;
   wakeLock: WakeLockSentinel | null = null;
   kkep = new keepInTabletMode(this.app);
   navHidden = new KeepNavHidden(this.app);
@@ -86,9 +111,17 @@ export default class MobilePlugin extends Plugin {
 
     this.toggleHideNav(this.settings.hideNativeNav);
 
+    // Follow the on-screen keyboard before anything subscribes to it
+    this.keyboard = this.addChild(new KeyboardTracker(this));
+
     // Initialize FAB Manager
     this.fabManager = new FABManager(this.app, this);
 
+    // Optional gesture surfaces inside the editor
+    this.editorGestures = this.addChild(
+      new EditorGestureSurface(this.app, this),
+    );
+
     // Register the Mobile Search view
     this.registerView(VIEW_TYPE_SEARCH, leaf => new SearchLeaf(leaf, this));
 
@@ -98,8 +131,16 @@ export default class MobilePlugin extends Plugin {
     // Register the settings tab
     this.registerView(VIEW_TYPE_SETTINGS, leaf => new settingsLeaf(leaf, this));
 
+    // Register the gesture practice view
+    this.registerView(
+      VIEW_TYPE_GESTURE_PRACTICE,
+      leaf => new GesturePracticeLeaf(leaf, this),
+    );
+
     // Register the CodeMirror 6 toolbar extension with multiple context-aware toolbars
     this.registerEditorExtension(createToolbarExtension(this.app, this));
+    // Toolbars for reading mode, PDFs and images
+    this.viewToolbars = this.addChild(new ViewToolbarHost(this.app, this));
     // add ribbon icon
     this.addRibbonIcon('plus', 'Create new note', this.createNewNote);
     this.addRibbonIcon('search', 'Open search', this.activateMobileSearchView);
@@ -161,6 +202,14 @@ export default class MobilePlugin extends Plugin {
         await this.activatearbitraryView(VIEW_TYPE_SETTINGS),
     });
 
+    this.addCommand({
+      id: 'open-gesture-practice',
+      name: 'Open gesture practice',
+      icon: 'dumbbell',
+      callback: async () =>
+        await this.activatearbitraryView(VIEW_TYPE_GESTURE_PRACTICE),
+    });
+
     this.addCommand({
       id: 'keep-in-tablet-mode',
       name: 'Toggle keep in tablet mode',
@@ -254,6 +303,9 @@ export default class MobilePlugin extends Plugin {
       },
     });
     registerCursorCommands(this);
+    registerMacroCommands(this);
+    registerFABModeCommands(this);
+    registerToolbarButtonCommands(this);
 
     // if there is PureChutLLM plugin, and a recorder command, add a command to trigger it
     const hasAudioRecorder =
@@ -265,16 +317,8 @@ export default class MobilePlugin extends Plugin {
       id: 'quick-audio-notes',
       name: 'Quick audio notes',
       icon: 'microphone',
-      callback: () => {
-        // Toggle FAB record mode
-        if (this.fabManager?.getMode() === 'recording') {
-          this.fabManager?.setMode('default');
-          new Notice('Recording mode disabled');
-        } else {
-          this.fabManager?.setMode('recording');
-          new Notice('Recording mode enabled');
-        }
-      },
+      // Kept for existing bindings; same as toggling the recording mode
+      callback: () => toggleFABMode(this, 'recording'),
     });
     if (hasAudioRecorder && hasPureChatLLM) {
       this.addCommand({
@@ -361,6 +405,39 @@ export default class MobilePlugin extends Plugin {
     this.app.commands?.executeCommandById('file-explorer:new-file');
   };
 
+  /**
+   * Detectors for the user's custom contexts and those registered by other
+   * plugins.
+   */
+  getContextDetectors(): ContextDetector[] {
+    return [...customContextDetectors(this), ...this.api.contextDetectors];
+  }
+
+  /**
+   * Looks up a toolbar in the user's library, then among the default
+   * toolbars registered by other plugins.
+   */
+  getToolbar(id: string): ToolbarConfig | undefined {
+    return (
+      this.settings.toolbars.find(t => t.id === id) ??
+      this.api.defaultToolbars.find(t => t.id === id)
+    );
+  }
+
+  /**
+   * The user's context bindings, plus the bindings of default toolbars for
+   * contexts the user has not bound anything to.
+   */
+  getContextBindings(): ContextBinding[] {
+    const bound = new Set(
+      this.settings.contextBindings.map(binding => binding.contextType),
+    );
+    return [
+      ...this.settings.contextBindings,
+      ...this.api.defaultBindings.filter(b => !bound.has(b.contextType)),
+    ];
+  }
+
   getBinds(toolbarId: string): string[] {
     const binds: string[] = [];
     for (const binding of this.settings.contextBindings) {
@@ -369,6 +446,41 @@ export default class MobilePlugin extends Plugin {
     return binds;
   }
 
+  /**
+   * Describes where a gesture is being drawn so context-scoped gestures can
+   * be matched. Defaults to the most recently active view.
+   */
+  getGestureContext(view?: View): GestureContext | null {
+    const target = view ?? this.app.workspace.getMostRecentLeaf()?.view;
+    if (!target) return null;
+    const contexts = new Set<ContextType>();
+    if (target instanceof MarkdownView && target.getMode() === 'source') {
+      // obsidian-typings ships its own EditorView declaration
+      const cm = target.editor.cm as unknown as EditorView;
+      getMatchingContexts(
+        cm,
+        cm.state.selection.main.from,
+        this.getContextDetectors(),
+      ).forEach(c => contexts.add(c));
+    }
+    const viewContext = getViewContext(target);
+    if (viewContext) contexts.add(viewContext);
+    return { viewType: target.getViewType(), contexts };
+  }
+
+  /**
+   * Re-evaluates the editor and view toolbars, e.g. after the available
+   * contexts change.
+   */
+  refreshToolbars(): void {
+    this.viewToolbars?.refresh();
+    const editor = this.app.workspace.activeEditor?.editor;
+    if (!editor) return;
+    // Setting the same selection makes the editor toolbar check it again
+    const cm = editor.cm as unknown as EditorView;
+    cm.dispatch({ selection: cm.state.selection });
+  }
+
   triggerCMDEvent(eventType: MobileCMDEvent): void {
     const cmdId = this.settings.MobileCMDEvents[eventType];
 
@@ -443,7 +555,12 @@ export default class MobilePlugin extends Plugin {
   async loadSettings() {
     const loadedData =
       (await this.loadData()) as Partial<MobilePluginSettings> | null;
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData ?? {});
+    // Clone the defaults so changes to nested lists and objects, like the
+    // migrations below, don't leak into them
+    this.settings = Object.assign(
+      structuredClone(DEFAULT_SETTINGS),
+      loadedData ?? {},
+    );
     if (this.settings.plusLongpress) {
       this.settings.MobileCMDEvents['fab-longpress'] =
         this.settings.plusLongpress;
@@ -453,12 +570,25 @@ export default class MobilePlugin extends Plugin {
       this.settings.MobileCMDEvents['fab-press'] = this.settings.pluspress;
       delete this.settings.pluspress;
     }
+    // The recording commands used to be FAB events; move them into the mode
+    const events = this.settings.MobileCMDEvents as Record<string, string>;
+    const recording = this.settings.fabModes.find(m => m.id === 'recording');
+    if (recording && 'fab-record-start' in events) {
+      recording.holdStart = events['fab-record-start'] || undefined;
+      recording.holdEnd = events['fab-record-stop'] || undefined;
+    }
+    delete events['fab-record-start'];
+    delete events['fab-record-stop'];
+    // Gestures used to store a single path; move it into the samples list
+    this.settings.gestureCommands.forEach(migrateGestureSamples);
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
 
     this.fabManager?.refresh();
+    this.editorGestures?.refresh();
+    this.viewToolbars?.refresh();
   }
 }
 
@@ -8,6 +8,7 @@ import {
   Modal,
   Notice,
   PluginSettingTab,
+  setIcon,
   Setting,
   SettingGroup,
   SuggestModal,
@@ -16,18 +17,81 @@ import {
 } from 'obsidian';
 import MobilePlugin from './main';
 import {
+  DEFAULT_GESTURE_THRESHOLD,
   GestureCommand,
+  GestureConflict,
   GestureHandler,
-  Offset,
+  GestureInput,
+  GestureMatch,
 } from './utils/gesture-handler';
 import { ToolbarEditor } from './views/ToolbarEditor';
+import { EditorGestureMode } from './features/editor-gestures';
+import {
+  ToolbarExpandedLayout,
+  toolbarExpandedLayoutDesc,
+  ToolbarLayout,
+  toolbarLayoutDesc,
+  UnavailableCommands,
+  unavailableCommandsDesc,
+} from './features/toolbar';
+import {
+  MacroConfig,
+  macroCommandId,
+  registerMacroCommand,
+} from './features/macros';
+import { MacroEditor } from './views/MacroEditor';
+import { CustomContext } from './features/custom-contexts';
+import { ToolbarButton } from './features/toolbar-buttons';
+import { CustomContextEditor } from './views/CustomContextEditor';
+import { RADIAL_MAX_SLOTS, RadialSlot } from './features/radial-menu';
+import { RadialMenuEditor } from './views/RadialMenuEditor';
+import {
+  FABModeConfig,
+  fabModeCommandId,
+  FABModeModal,
+  fabModeEventDesc,
+  registerFABModeCommand,
+} from './features/fab-modes';
+import {
+  FABProfile,
+  FABProfileModal,
+  fabProfileDisplayNames,
+  FABProfileType,
+} from './features/fab-profiles';
+import { VIEW_TYPE_GESTURE_PRACTICE } from './views/GesturePracticeLeaf';
+import {
+  findNearestGesture,
+  gestureHits,
+  UNRECOGNIZED_LOG_SIZE,
+  UnrecognizedGesture,
+} from './features/gesture-stats';
+import { NewGesture } from './features/fab';
+import {
+  ExportGesturePackModal,
+  GesturePackFileSuggest,
+} from './features/gesture-packs';
 
 // Type for Obsidian's internal commands API (not in public API)
 
+/**
+ * What a toolbar entry does besides running its command when tapped.
+ *
+ * @property longPress - Command to run on long-press, or several to pick
+ *   from in a menu.
+ * @property swipeUp - Command to run when swiping up on the button, instead
+ *   of expanding the toolbar.
+ */
+export interface ToolbarEntryActions {
+  longPress?: string[];
+  swipeUp?: string;
+}
+
 export interface ToolbarConfig {
   name: string;
   id: string;
   commands: string[];
+  /** Secondary actions, by command ID of the entry. */
+  actions?: Record<string, ToolbarEntryActions>;
 }
 
 const allowedContexts = [
@@ -39,27 +103,92 @@ const allowedContexts = [
   'table',
   'blockquote',
   'link',
+  'canvas-card',
+  'reading',
+  'pdf',
+  'image',
   'default',
 ] as const;
 
-export type ContextType = (typeof allowedContexts)[number];
+export type BuiltInContextType = (typeof allowedContexts)[number];
+
+/**
+ * A built-in context, or the id of a context registered by another plugin.
+ */
+export type ContextType = BuiltInContextType | (string & Record<never, never>);
+
+export const contextDisplayNames: Record<BuiltInContextType, string> = {
+  selection: 'Selection',
+  list: 'List',
+  task: 'Task',
+  heading: 'Heading',
+  'code-block': 'Code block',
+  table: 'Table',
+  blockquote: 'Blockquote',
+  link: 'Link',
+  'canvas-card': 'Canvas card',
+  reading: 'Reading mode',
+  pdf: 'PDF',
+  image: 'Image',
+  default: 'Default',
+};
+
+/**
+ * Common view types, with display names, that features can be scoped to.
+ */
+export const viewTypeDisplayNames: Record<string, string> = {
+  markdown: 'Markdown',
+  canvas: 'Canvas',
+  pdf: 'PDF',
+  image: 'Image',
+  graph: 'Graph',
+  empty: 'Empty tab',
+};
+
+/**
+ * Every context toolbars and gestures can be bound to: the built-in ones
+ * followed by the user's custom contexts and those registered by other
+ * plugins.
+ */
+export function availableContexts(plugin: MobilePlugin): ContextType[] {
+  return [
+    ...allowedContexts,
+    ...plugin.getContextDetectors().map(detector => detector.id),
+  ];
+}
 
-const contextTypeBindings = allowedContexts.map(contextType => ({
-  id: `binding-${Date.now()}-${contextType}`,
-  contextType: contextType,
-  toolbarId: '',
-}));
+/**
+ * Display name of a context, falling back to its id.
+ */
+export function contextDisplayName(
+  plugin: MobilePlugin,
+  contextType: ContextType,
+): string {
+  return (
+    contextDisplayNames[contextType as BuiltInContextType] ||
+    plugin.getContextDetectors().find(d => d.id === contextType)?.name ||
+    contextType
+  );
+}
 
+/**
+ * Shows a toolbar in a context.
+ *
+ * @property contextType - Context the toolbar is shown in.
+ * @property toolbarId - Toolbar from the library.
+ * @property priority - Toolbars of higher priority come first; defaults to 0.
+ * @property exclusive - Hides toolbars of lower priority while this one shows.
+ */
 export interface ContextBinding {
   contextType: ContextType;
   toolbarId: string;
+  priority?: number;
+  exclusive?: boolean;
 }
 
 export type MobileCMDEvent =
   | 'fab-longpress'
-  | 'fab-press'
-  | 'fab-record-start'
-  | 'fab-record-stop';
+  | 'fab-press';
 
 export const MobileCMDEventsDesc: Record<MobileCMDEvent, [string, string]> = {
   'fab-longpress': [
@@ -70,14 +199,6 @@ export const MobileCMDEventsDesc: Record<MobileCMDEvent, [string, string]> = {
     'FAB press',
     'Select command to execute when the "Floating Action Button" is pressed',
   ],
-  'fab-record-start': [
-    'FAB record start',
-    'Select command to execute when the "Floating Action Button" is held down in recording mode',
-  ],
-  'fab-record-stop': [
-    'FAB record stop',
-    'Select command to execute when the "Floating Action Button" is released in recording mode',
-  ],
 };
 
 export interface MobilePluginSettings {
@@ -90,16 +211,36 @@ export interface MobilePluginSettings {
   pluspress?: string;
   homeFolder: string;
   toolbars: ToolbarConfig[];
+  toolbarButtons: ToolbarButton[];
   contextBindings: ContextBinding[];
+  customContexts: CustomContext[];
   useIcons: boolean;
+  toolbarSeparators: boolean;
+  toolbarLayout: ToolbarLayout;
+  toolbarRows: number;
+  toolbarExpandedLayout: ToolbarExpandedLayout;
+  unavailableCommands: UnavailableCommands;
   showToolbars: boolean;
   showFAB: boolean;
   commandIcons: Record<string, string>; // Map of command ID to icon name
   enableHapticFeedback: boolean;
   gestureCommands: GestureCommand[];
+  gestureThreshold: number;
+  gestureStrokeTimeout: number;
+  editorGestureSurface: EditorGestureMode;
+  editorGestureEdge: 'left' | 'right';
+  editorGestureEdgeWidth: number;
+  macros: MacroConfig[];
+  radialMenuEnabled: boolean;
+  radialMenuSlots: RadialSlot[];
+  fabProfiles: Partial<Record<FABProfileType, FABProfile>>;
+  speedDialToolbar: string;
+  fabModes: FABModeConfig[];
+  unrecognizedGestures: UnrecognizedGesture[];
   showBuiltInToolbar: boolean;
   showTabsInSearchView: boolean;
   hideFABWhenKeyboardOpen: boolean;
+  leftHandedMode: boolean;
   hideNativeNav: boolean;
 }
 
@@ -108,14 +249,32 @@ export const DEFAULT_SETTINGS: MobilePluginSettings = {
   MobileCMDEvents: {
     'fab-longpress': 'command-palette:open',
     'fab-press': 'file-explorer:new-file',
-    'fab-record-start': 'audio-recorder:start',
-    'fab-record-stop': 'audio-recorder:stop',
   },
   showCommandConfirmation: true,
   homeFolder: '',
   showToolbars: true,
   showFAB: true,
   gestureCommands: [],
+  gestureThreshold: DEFAULT_GESTURE_THRESHOLD,
+  gestureStrokeTimeout: 0,
+  editorGestureSurface: 'off',
+  editorGestureEdge: 'right',
+  editorGestureEdgeWidth: 20,
+  macros: [],
+  radialMenuEnabled: false,
+  radialMenuSlots: [],
+  fabProfiles: {},
+  speedDialToolbar: '',
+  fabModes: [
+    {
+      id: 'recording',
+      name: 'Recording',
+      icon: 'microphone',
+      holdStart: 'audio-recorder:start',
+      holdEnd: 'audio-recorder:stop',
+    },
+  ],
+  unrecognizedGestures: [],
   toolbars: [
     {
       id: 'formatting',
@@ -223,6 +382,8 @@ export const DEFAULT_SETTINGS: MobilePluginSettings = {
       ],
     },
   ],
+  toolbarButtons: [],
+  customContexts: [],
   contextBindings: [
     {
       contextType: 'selection',
@@ -247,6 +408,7 @@ export const DEFAULT_SETTINGS: MobilePluginSettings = {
     {
       contextType: 'table',
       toolbarId: 'table-actions',
+      exclusive: true,
     },
     {
       contextType: 'blockquote',
@@ -259,13 +421,20 @@ export const DEFAULT_SETTINGS: MobilePluginSettings = {
     {
       contextType: 'default',
       toolbarId: 'formatting',
+      priority: -1,
     },
     {
       contextType: 'default',
       toolbarId: 'caret',
+      priority: -1,
     },
   ],
   useIcons: true,
+  toolbarSeparators: true,
+  toolbarLayout: 'strip',
+  toolbarRows: 2,
+  toolbarExpandedLayout: 'wrap',
+  unavailableCommands: 'hide',
   commandIcons: {
     'editor:set-heading-1': 'lucide-heading-1',
     'editor:set-heading-2': 'lucide-heading-2',
@@ -282,6 +451,7 @@ export const DEFAULT_SETTINGS: MobilePluginSettings = {
   enableTabReordering: true,
   enableCursorCommands: false,
   hideFABWhenKeyboardOpen: false,
+  leftHandedMode: false,
   hideNativeNav: false,
 };
 
@@ -466,30 +636,101 @@ export class MobileSettingsView {
     void this.plugin.saveSettings();
   }
 
+  private renderCustomContexts() {
+    const group = new SettingGroup(this.containerEl).setHeading(
+      'Custom contexts',
+    );
+    this.plugin.settings.customContexts.forEach((context, index) =>
+      group.addSetting(
+        setting =>
+          void setting
+            .setName(context.name)
+            .setDesc(
+              `${context.rules.length} rules · ${context.match === 'any' ? 'any' : 'all'} must match`,
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('pencil')
+                .setTooltip('Edit context')
+                .onClick(() =>
+                  new CustomContextEditor(this.app, this.plugin, context)
+                    .onDone(() => this.renderGeneralSettings())
+                    .open(),
+                ),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Delete context')
+                .onClick(async () => {
+                  const { settings } = this.plugin;
+                  settings.customContexts.splice(index, 1);
+                  settings.contextBindings = settings.contextBindings.filter(
+                    b => b.contextType !== context.id,
+                  );
+                  settings.gestureCommands.forEach(gesture =>
+                    gesture.contexts?.remove(context.id),
+                  );
+                  await this.plugin.saveSettings();
+                  this.renderGeneralSettings();
+                }),
+            ),
+      ),
+    );
+    group.addSetting(
+      setting =>
+        void setting
+          .setName('Add new context')
+          .setDesc(
+            'Define a context from rules on the syntax, line, properties, tags, folder or callout, then bind toolbars to it',
+          )
+          .addButton(btn =>
+            btn.setButtonText('Add').onClick(async () => {
+              const context: CustomContext = {
+                id: `custom-${Date.now()}`,
+                name: 'New context',
+                match: 'all',
+                rules: [],
+              };
+              this.plugin.settings.customContexts.push(context);
+              await this.plugin.saveSettings();
+              new CustomContextEditor(this.app, this.plugin, context)
+                .onDone(() => this.renderGeneralSettings())
+                .open();
+            }),
+          ),
+    );
+  }
+
   private renderContextBindings() {
     const containerEl = this.containerEl;
     const group = new SettingGroup(containerEl).setHeading('Context Bindings');
 
-    contextTypeBindings.forEach(ctb => {
+    availableContexts(this.plugin).forEach(contextType => {
       group.addSetting(
         setting =>
           void setting
-            .setName(this.getContextDisplayName(ctb.contextType))
+            .setName(this.getContextDisplayName(contextType))
             .then(setting => {
-              this.plugin.settings.contextBindings.forEach((b, i) => {
-                if (b.contextType === ctb.contextType) {
+              this.plugin.settings.contextBindings.forEach(b => {
+                if (b.contextType === contextType) {
                   setting.addButton(btn =>
                     btn
                       .setButtonText(
-                        this.plugin.settings.toolbars.find(
-                          t => t.id === b.toolbarId,
-                        )?.name || b.toolbarId,
+                        [
+                          this.plugin.settings.toolbars.find(
+                            t => t.id === b.toolbarId,
+                          )?.name || b.toolbarId,
+                          ...(b.priority ? [`priority ${b.priority}`] : []),
+                          ...(b.exclusive ? ['exclusive'] : []),
+                        ].join(' · '),
                       )
-                      .onClick(() => {
-                        this.plugin.settings.contextBindings.splice(i, 1);
-                        void this.plugin.saveSettings();
-                        this.renderGeneralSettings();
-                      }),
+                      .setTooltip('Edit binding')
+                      .onClick(() =>
+                        new ContextBindingModal(this.app, this.plugin, b)
+                          .onDone(() => this.renderGeneralSettings())
+                          .open(),
+                      ),
                   );
                 }
               });
@@ -505,7 +746,7 @@ export class MobileSettingsView {
                     toolbar => {
                       void (async () => {
                         const newBinding: ContextBinding = {
-                          contextType: ctb.contextType,
+                          contextType,
                           toolbarId: toolbar.id,
                         };
                         this.plugin.settings.contextBindings.push(newBinding);
@@ -585,6 +826,19 @@ export class MobileSettingsView {
                 }),
             ),
       )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Left-handed mode')
+            .setDesc(
+              'Mirror the floating action button position and the space the toolbar keeps free for it. Hold the button still, then drag it to dock it elsewhere; positions are remembered per device and orientation.',
+            )
+            .addToggle(toggle =>
+              toggle
+                .setValue(this.plugin.settings.leftHandedMode)
+                .onChange(value => this.sett('leftHandedMode', value)),
+            ),
+      )
       .addSetting(
         setting =>
           void setting
@@ -639,6 +893,89 @@ export class MobileSettingsView {
                 .onChange(value => this.sett('useIcons', value)),
             ),
       )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Toolbar layout')
+            .setDesc(
+              'Show the toolbars of all matching contexts in a single row, one row each, or one page each',
+            )
+            .addDropdown(dropdown =>
+              dropdown
+                .addOptions(toolbarLayoutDesc)
+                .setValue(this.plugin.settings.toolbarLayout)
+                .onChange(value => {
+                  this.sett('toolbarLayout', value as ToolbarLayout);
+                  this.renderGeneralSettings();
+                }),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Toolbar rows')
+            .setDesc(
+              'How many rows the toolbar shows at once when it has one row per toolbar; scroll to see the rest',
+            )
+            .setDisabled(this.plugin.settings.toolbarLayout !== 'rows')
+            .addSlider(slider =>
+              slider
+                .setLimits(1, 4, 1)
+                .setDynamicTooltip()
+                .setValue(this.plugin.settings.toolbarRows)
+                .setDisabled(this.plugin.settings.toolbarLayout !== 'rows')
+                .onChange(value => this.sett('toolbarRows', value)),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Separate toolbar sections')
+            .setDesc(
+              'Show a divider between the toolbars merged from different context bindings in a single row',
+            )
+            .addToggle(toggle =>
+              toggle
+                .setValue(this.plugin.settings.toolbarSeparators)
+                .onChange(value => this.sett('toolbarSeparators', value)),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Expanded toolbar')
+            .setDesc('How the toolbar shows all commands after swiping it up')
+            .addDropdown(dropdown =>
+              dropdown
+                .addOptions(toolbarExpandedLayoutDesc)
+                .setValue(this.plugin.settings.toolbarExpandedLayout)
+                .onChange(value =>
+                  this.sett(
+                    'toolbarExpandedLayout',
+                    value as ToolbarExpandedLayout,
+                  ),
+                ),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Unavailable commands')
+            .setDesc(
+              'Hide or dim toolbar buttons of commands that cannot run right now',
+            )
+            .addDropdown(dropdown =>
+              dropdown
+                .addOptions(unavailableCommandsDesc)
+                .setValue(this.plugin.settings.unavailableCommands)
+                .onChange(value =>
+                  this.sett(
+                    'unavailableCommands',
+                    value as UnavailableCommands,
+                  ),
+                ),
+            ),
+      )
       .addSetting(
         setting =>
           void setting
@@ -705,10 +1042,144 @@ export class MobileSettingsView {
             ),
       );
     });
+    fabEventCommandSettings.addSetting(
+      setting =>
+        void setting
+          .setName('Radial menu on long press')
+          .setDesc(
+            `Open a ring of up to ${RADIAL_MAX_SLOTS} commands around the floating action button instead of running the long press command; slide to a slot and release to run it`,
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon('pencil')
+              .setTooltip('Edit radial menu')
+              .onClick(() =>
+                new RadialMenuEditor(
+                  this.app,
+                  this.plugin,
+                  this.plugin.settings.radialMenuSlots,
+                )
+                  .onDone(() => this.renderGeneralSettings())
+                  .open(),
+              ),
+          )
+          .addToggle(toggle =>
+            toggle
+              .setValue(this.plugin.settings.radialMenuEnabled)
+              .onChange(value => this.sett('radialMenuEnabled', value)),
+          ),
+    );
+    fabEventCommandSettings.addSetting(
+      setting =>
+        void setting
+          .setName('Speed dial on tap')
+          .setDesc(
+            'Fan out the commands of a toolbar from the floating action button when it is tapped, instead of running the press command',
+          )
+          .addDropdown(dropdown =>
+            dropdown
+              .addOption('', 'Off')
+              .addOptions(
+                Object.fromEntries(
+                  this.plugin.settings.toolbars.map(t => [t.id, t.name]),
+                ),
+              )
+              .setValue(this.plugin.settings.speedDialToolbar)
+              .onChange(value => this.sett('speedDialToolbar', value)),
+          ),
+    );
+
+    this.renderFABModes();
+    this.renderFABProfiles();
 
     const gestureCommandSettings = new SettingGroup(
       this.containerEl,
     ).setHeading('Gesture Commands');
+    gestureCommandSettings.addSetting(
+      setting =>
+        void setting
+          .setName('Recognition threshold')
+          .setDesc(
+            'Minimum confidence a drawn shape needs to match a gesture; individual gestures can override this',
+          )
+          .addSlider(slider =>
+            slider
+              .setLimits(0.5, 0.99, 0.01)
+              .setDynamicTooltip()
+              .setValue(this.plugin.settings.gestureThreshold)
+              .onChange(value => this.sett('gestureThreshold', value)),
+          ),
+    );
+    gestureCommandSettings.addSetting(
+      setting =>
+        void setting
+          .setName('Multi-stroke timeout')
+          .setDesc(
+            'Milliseconds to wait for another stroke after lifting your finger, so shapes like an X can be drawn in two strokes; 0 disables multi-stroke gestures',
+          )
+          .addSlider(slider =>
+            slider
+              .setLimits(0, 1500, 50)
+              .setDynamicTooltip()
+              .setValue(this.plugin.settings.gestureStrokeTimeout)
+              .onChange(value => this.sett('gestureStrokeTimeout', value)),
+          ),
+    );
+    gestureCommandSettings.addSetting(
+      setting =>
+        void setting
+          .setName('Draw gestures in the editor')
+          .setDesc(
+            'Start gestures from a strip along the edge of the editor, or by holding two fingers still in the editor',
+          )
+          .addDropdown(dropdown =>
+            dropdown
+              .addOptions({
+                off: 'Off',
+                edge: 'Screen edge',
+                'long-press': 'Two-finger long press',
+              })
+              .setValue(this.plugin.settings.editorGestureSurface)
+              .onChange(value => {
+                this.sett('editorGestureSurface', value as EditorGestureMode);
+                this.renderGeneralSettings();
+              }),
+          ),
+    );
+    if (this.plugin.settings.editorGestureSurface === 'edge') {
+      gestureCommandSettings
+        .addSetting(
+          setting =>
+            void setting
+              .setName('Gesture edge')
+              .setDesc('Which edge of the editor starts a gesture')
+              .addDropdown(dropdown =>
+                dropdown
+                  .addOptions({ left: 'Left', right: 'Right' })
+                  .setValue(this.plugin.settings.editorGestureEdge)
+                  .onChange(value =>
+                    this.sett('editorGestureEdge', value as 'left' | 'right'),
+                  ),
+              ),
+        )
+        .addSetting(
+          setting =>
+            void setting
+              .setName('Gesture edge width')
+              .setDesc(
+                'Width of the edge strip in pixels; text under it cannot be tapped',
+              )
+              .addSlider(slider =>
+                slider
+                  .setLimits(8, 48, 2)
+                  .setDynamicTooltip()
+                  .setValue(this.plugin.settings.editorGestureEdgeWidth)
+                  .onChange(value =>
+                    this.sett('editorGestureEdgeWidth', value),
+                  ),
+              ),
+        );
+    }
     if (this.plugin.settings.gestureCommands.length === 0) {
       gestureCommandSettings.addSetting(
         setting =>
@@ -719,18 +1190,66 @@ export class MobileSettingsView {
             ),
       );
     }
+    const conflicts = GestureHandler.findAllConflicts(
+      this.plugin.settings.gestureCommands,
+      this.plugin.settings.gestureThreshold,
+    );
     this.plugin.settings.gestureCommands.forEach((gc, gcIndex) =>
       gestureCommandSettings.addSetting(setting => {
+        const conflict = conflicts.find(
+          c => c.gesture === gc || c.other === gc,
+        );
+        if (conflict) {
+          // Present the conflict from the point of view of this row
+          const other =
+            conflict.gesture === gc ? conflict.other : conflict.gesture;
+          setting.addExtraButton(btn =>
+            btn
+              .setIcon('alert-triangle')
+              .setTooltip(
+                `Similar to ${other.name} (${Math.round(conflict.similarity * 100)}%)`,
+              )
+              .onClick(() => {
+                new GestureConflictModal(
+                  this.app,
+                  { gesture: gc, other, similarity: conflict.similarity },
+                  choice => {
+                    if (choice === 'replace') {
+                      this.plugin.settings.gestureCommands.remove(other);
+                      void this.plugin.saveSettings();
+                      this.renderGeneralSettings();
+                    } else if (choice === 'redraw') {
+                      new EditGestureDrawingModal(
+                        this.app,
+                        this.plugin,
+                        gc,
+                        () => this.renderGeneralSettings(),
+                      ).open();
+                    }
+                  },
+                ).open();
+              }),
+          );
+        }
         setting
           .setName(gc.name)
-          .setDesc(gc.commandId)
+          .setDesc(
+            [
+              gc.commandId,
+              `${gc.samples.length} samples, ${gestureHits(gc)} hits`,
+              gc.threshold === undefined ? '' : `threshold ${gc.threshold}`,
+              [...(gc.viewTypes ?? []), ...(gc.contexts ?? [])].join(', '),
+            ]
+              .filter(Boolean)
+              .join(' · '),
+          )
           .addExtraButton(btn =>
             btn
               .setIcon(
                 /* Register and add SVG icon as the edit button*/
                 GestureHandler.getGestureIcon(gc),
               )
-              .setTooltip('Edit gesture drawing')
+              .setTooltip('Edit gesture samples')
               .onClick(() => {
                 new EditGestureDrawingModal(this.app, this.plugin, gc, () =>
                   this.renderGeneralSettings(),
@@ -769,7 +1288,7 @@ export class MobileSettingsView {
               const newCommand: GestureCommand = {
                 name: command.name,
                 commandId: command.id,
-                gesturePath: '',
+                samples: [],
               };
               this.plugin.settings.gestureCommands.push(newCommand);
               new EditGestureDrawingModal(
@@ -782,8 +1301,63 @@ export class MobileSettingsView {
           }),
         ),
     );
+    gestureCommandSettings.addSetting(
+      setting =>
+        void setting
+          .setName('Practice gestures')
+          .setDesc(
+            'Draw gestures to see which one matches and how confidently, without running commands',
+          )
+          .addButton(btn =>
+            btn
+              .setButtonText('Practice')
+              .onClick(
+                () =>
+                  void this.plugin.activatearbitraryView(
+                    VIEW_TYPE_GESTURE_PRACTICE,
+                  ),
+              ),
+          ),
+    );
 
+    this.renderGestureStats();
+    this.renderMacros();
+    new SettingGroup(this.containerEl)
+      .setHeading('Gesture packs')
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Export gesture pack')
+            .setDesc(
+              'Save gestures, toolbars, context bindings and macros as a pack file in the vault to share them',
+            )
+            .addButton(btn =>
+              btn
+                .setButtonText('Export')
+                .onClick(() =>
+                  new ExportGesturePackModal(this.app, this.plugin).open(),
+                ),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Import gesture pack')
+            .setDesc(
+              'Load a gesture pack file from the vault, merging with or replacing the current setup',
+            )
+            .addButton(btn =>
+              btn
+                .setButtonText('Import')
+                .onClick(() =>
+                  new GesturePackFileSuggest(this.app, this.plugin, () =>
+                    this.renderGeneralSettings(),
+                  ).open(),
+                ),
+            ),
+      );
     this.renderToolbars();
+    this.renderCustomContexts();
     this.renderContextBindings();
     new SettingGroup(this.containerEl)
       .setHeading('Danger Zone')
@@ -810,7 +1384,7 @@ export class MobileSettingsView {
               .setButtonText('Reset to default settings')
               .setWarning()
               .onClick(async () => {
-                this.plugin.settings = { ...DEFAULT_SETTINGS };
+                this.plugin.settings = structuredClone(DEFAULT_SETTINGS);
                 await this.plugin.saveSettings();
                 this.renderGeneralSettings();
               }),
@@ -818,6 +1392,294 @@ export class MobileSettingsView {
       );
   }
 
+  private renderFABModes() {
+    const group = new SettingGroup(this.containerEl).setHeading(
+      'Floating action button modes',
+    );
+    this.plugin.settings.fabModes.forEach((mode, index) =>
+      group.addSetting(
+        setting =>
+          void setting
+            .setName(mode.name)
+            .setDesc(
+              [
+                `mobile:${fabModeCommandId(mode)}`,
+                ...(
+                  Object.keys(
+                    fabModeEventDesc,
+                  ) as (keyof typeof fabModeEventDesc)[]
+                )
+                  .filter(event => mode[event])
+                  .map(
+                    event => `${fabModeEventDesc[event][0]}: ${mode[event]}`,
+                  ),
+              ].join(' · '),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon(mode.icon)
+                .setTooltip('Edit mode')
+                .onClick(() =>
+                  new FABModeModal(this.app, this.plugin, mode)
+                    .onDone(() => this.renderGeneralSettings())
+                    .open(),
+                ),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Delete mode')
+                .onClick(async () => {
+                  this.plugin.settings.fabModes.splice(index, 1);
+                  this.plugin.removeCommand(fabModeCommandId(mode));
+                  if (this.plugin.fabManager?.getMode() === mode.id) {
+                    this.plugin.fabManager.setMode(null);
+                  }
+                  await this.plugin.saveSettings();
+                  this.renderGeneralSettings();
+                }),
+            ),
+      ),
+    );
+    group.addSetting(
+      setting =>
+        void setting
+          .setName('Add new mode')
+          .setDesc(
+            'A mode replaces what pressing, holding and long-pressing the button do, and gets its own toggle command',
+          )
+          .addButton(btn =>
+            btn.setButtonText('Add').onClick(async () => {
+              const mode: FABModeConfig = {
+                id: `${Date.now()}`,
+                name: 'New',
+                icon: 'circle-dot',
+              };
+              this.plugin.settings.fabModes.push(mode);
+              registerFABModeCommand(this.plugin, mode);
+              await this.plugin.saveSettings();
+              new FABModeModal(this.app, this.plugin, mode)
+                .onDone(() => this.renderGeneralSettings())
+                .open();
+            }),
+          ),
+    );
+  }
+
+  /**
+   * One row per view type whose FAB can have its own icon, commands and
+   * gestures.
+   */
+  private renderFABProfiles() {
+    const group = new SettingGroup(this.containerEl).setHeading(
+      'Floating action button profiles',
+    );
+    (
+      Object.entries(fabProfileDisplayNames) as [FABProfileType, string][]
+    ).forEach(([type, name]) =>
+      group.addSetting(setting => {
+        const profile = this.plugin.settings.fabProfiles[type];
+        setting
+          .setName(name)
+          .setDesc(
+            profile
+              ? [
+                  profile.press && `tap: ${profile.press}`,
+                  profile.longpress && `long press: ${profile.longpress}`,
+                  profile.gestures === 'scoped' && 'scoped gestures',
+                ]
+                  .filter(Boolean)
+                  .join(' · ') || 'Custom icon'
+              : 'Uses the default floating action button',
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon(profile?.icon ?? 'plus')
+              .setTooltip('Edit profile')
+              .onClick(() =>
+                new FABProfileModal(this.app, this.plugin, type)
+                  .onDone(() => this.renderGeneralSettings())
+                  .open(),
+              ),
+          );
+      }),
+    );
+  }
+
+  /**
+   * Usage per gesture and the log of drawings that matched nothing, which
+   * can be turned into new gestures or extra samples.
+   */
+  private renderGestureStats() {
+    const { settings } = this.plugin;
+    const stats = new SettingGroup(this.containerEl).setHeading(
+      'Gesture statistics',
+    );
+    [...settings.gestureCommands]
+      .sort((a, b) => gestureHits(b) - gestureHits(a))
+      .forEach(gc =>
+        stats.addSetting(
+          setting =>
+            void setting
+              .setName(gc.name)
+              .setDesc(
+                [
+                  `${gestureHits(gc)} hits`,
+                  gc.lastUsed
+                    ? `last used ${new Date(gc.lastUsed).toLocaleString()}`
+                    : 'never used',
+                  `${gc.nearMisses ?? 0} near misses`,
+                ].join(' · '),
+              ),
+        ),
+      );
+
+    const log = new SettingGroup(this.containerEl).setHeading(
+      'Unrecognized gestures',
+    );
+    if (settings.unrecognizedGestures.length === 0) {
+      log.addSetting(
+        setting =>
+          void setting
+            .setName('No unrecognized gestures')
+            .setDesc(
+              `The last ${UNRECOGNIZED_LOG_SIZE} drawings that did not match a gesture are listed here.`,
+            ),
+      );
+    }
+    settings.unrecognizedGestures.forEach(entry =>
+      log.addSetting(setting => {
+        const nearest = findNearestGesture(this.plugin, entry);
+        const remove = () => {
+          settings.unrecognizedGestures.remove(entry);
+          void this.plugin.saveSettings();
+          this.renderGeneralSettings();
+        };
+        setting
+          .setName(new Date(entry.time).toLocaleString())
+          .setDesc(
+            entry.nearest
+              ? `Closest: ${entry.nearest.name} (${Math.round(entry.nearest.score * 100)}%)`
+              : 'No gesture to compare with',
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon(
+                GestureHandler.getGestureIcon({
+                  name: 'Unrecognized',
+                  commandId: `unrecognized-${entry.time}`,
+                  samples: [entry.sample],
+                }),
+              )
+              .setDisabled(true),
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon('plus')
+              .setTooltip('Assign this shape to a command')
+              .onClick(() =>
+                new NewGesture(
+                  this.app,
+                  this.plugin,
+                  GestureHandler.toInput(entry.sample),
+                )
+                  .onSave(remove)
+                  .openCommandSelection(),
+              ),
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon('copy-plus')
+              .setTooltip('Add as extra sample')
+              .onClick(() => {
+                // Offer the closest gesture first, as it is the likely intent
+                const gestures = settings.gestureCommands.filter(
+                  gc => gc !== nearest,
+                );
+                if (nearest) gestures.unshift(nearest);
+                new GestureSuggestModal(this.app, gestures, gc => {
+                  gc.samples.push({ ...entry.sample, hits: 0 });
+                  remove();
+                }).open();
+              }),
+          )
+          .addExtraButton(btn =>
+            btn.setIcon('trash').setTooltip('Discard drawing').onClick(remove),
+          );
+      }),
+    );
+    if (settings.unrecognizedGestures.length > 0) {
+      log.addSetting(
+        setting =>
+          void setting.setName('Clear log').addButton(btn =>
+            btn.setButtonText('Clear').onClick(async () => {
+              settings.unrecognizedGestures = [];
+              await this.plugin.saveSettings();
+              this.renderGeneralSettings();
+            }),
+          ),
+      );
+    }
+  }
+
+  private renderMacros() {
+    const group = new SettingGroup(this.containerEl).setHeading('Macros');
+    this.plugin.settings.macros.forEach((macro, index) =>
+      group.addSetting(
+        setting =>
+          void setting
+            .setName(macro.name)
+            .setDesc(
+              `${macro.steps.length} steps · mobile:${macroCommandId(macro)}`,
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('pencil')
+                .setTooltip('Edit macro')
+                .onClick(() =>
+                  new MacroEditor(this.app, this.plugin, macro)
+                    .onDone(() => this.renderGeneralSettings())
+                    .open(),
+                ),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Delete macro')
+                .onClick(async () => {
+                  this.plugin.settings.macros.splice(index, 1);
+                  this.plugin.removeCommand(macroCommandId(macro));
+                  await this.plugin.saveSettings();
+                  this.renderGeneralSettings();
+                }),
+            ),
+      ),
+    );
+    group.addSetting(
+      setting =>
+        void setting
+          .setName('Add new macro')
+          .setDesc(
+            'Macros run a sequence of commands, delays and text, and can be assigned like any other command',
+          )
+          .addButton(btn =>
+            btn.setButtonText('Add').onClick(async () => {
+              const macro: MacroConfig = {
+                id: `${Date.now()}`,
+                name: 'New macro',
+                steps: [],
+              };
+              this.plugin.settings.macros.push(macro);
+              registerMacroCommand(this.plugin, macro);
+              await this.plugin.saveSettings();
+              new MacroEditor(this.app, this.plugin, macro)
+                .onDone(() => this.renderGeneralSettings())
+                .open();
+            }),
+          ),
+    );
+  }
+
   renderToolbars() {
     new ToolbarEditor(
       this.app,
@@ -827,18 +1689,7 @@ export class MobileSettingsView {
   }
 
   getContextDisplayName(contextType: ContextType): string {
-    const names: Record<ContextType, string> = {
-      selection: 'Selection',
-      list: 'List',
-      task: 'Task',
-      heading: 'Heading',
-      'code-block': 'Code block',
-      table: 'Table',
-      blockquote: 'Blockquote',
-      link: 'Link',
-      default: 'Default',
-    };
-    return names[contextType] || contextType;
+    return contextDisplayName(this.plugin, contextType);
   }
 }
 
@@ -899,13 +1750,16 @@ export class ContextSelectionModal extends FuzzySuggestModal<ContextBinding> {
 
   constructor(
     app: App,
+    plugin: MobilePlugin,
     onSubmit: (result: ContextBinding) => void,
     prompt?: string,
   ) {
     super(app);
     this.onSubmit = onSubmit;
-    //
-    this.bindings = contextTypeBindings;
+    this.bindings = availableContexts(plugin).map(contextType => ({
+      contextType,
+      toolbarId: '',
+    }));
 
     this.setPlaceholder(prompt || 'Create new context binding...');
   }
@@ -957,13 +1811,131 @@ export class ContextBindingChooser extends FuzzySuggestModal<ToolbarConfig> {
 }
 
 /**
- * Modal for editing the drawing of an existing gesture.
+ * Modal for editing the priority of a context binding, making it exclusive
+ * or removing it.
+ *
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class ContextBindingModal extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    app: App,
+    private plugin: MobilePlugin,
+    private binding: ContextBinding,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { binding } = this;
+    this.setTitle(
+      `${contextDisplayName(this.plugin, binding.contextType)}: ${
+        this.plugin.getToolbar(binding.toolbarId)?.name || binding.toolbarId
+      }`,
+    );
+
+    new SettingGroup(this.contentEl)
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Priority')
+            .setDesc(
+              'Toolbars of higher priority are shown first; bindings of equal priority keep their order',
+            )
+            .addText(text =>
+              text
+                .setPlaceholder('0')
+                .setValue(binding.priority ? String(binding.priority) : '')
+                .onChange(async value => {
+                  const priority = Number(value) || 0;
+                  if (priority) binding.priority = priority;
+                  else delete binding.priority;
+                  await this.plugin.saveSettings();
+                }),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Exclusive')
+            .setDesc(
+              'While this toolbar is shown, hide the toolbars of contexts with a lower priority',
+            )
+            .addToggle(toggle =>
+              toggle
+                .setValue(Boolean(binding.exclusive))
+                .onChange(async value => {
+                  if (value) binding.exclusive = true;
+                  else delete binding.exclusive;
+                  await this.plugin.saveSettings();
+                }),
+            ),
+      )
+      .addSetting(
+        setting =>
+          void setting.addButton(button =>
+            button
+              .setButtonText('Remove binding')
+              .setWarning()
+              .onClick(async () => {
+                this.plugin.settings.contextBindings.remove(binding);
+                await this.plugin.saveSettings();
+                this.close();
+              }),
+          ),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.closeCallback();
+  }
+}
+
+/**
+ * Modal for picking one of the configured gesture commands.
+ *
+ * @extends FuzzySuggestModal
+ */
+export class GestureSuggestModal extends FuzzySuggestModal<GestureCommand> {
+  constructor(
+    app: App,
+    public gestures: GestureCommand[],
+    private onSubmit: (result: GestureCommand) => void,
+  ) {
+    super(app);
+    this.setPlaceholder('Choose a gesture...');
+  }
+
+  getItems(): GestureCommand[] {
+    return this.gestures;
+  }
+
+  getItemText(gesture: GestureCommand): string {
+    return gesture.name;
+  }
+
+  onChooseItem(gesture: GestureCommand) {
+    this.onSubmit(gesture);
+  }
+}
+
+/**
+ * Modal for editing the drawings of an existing gesture.
  *
- * Provides a large drawing area where the user can redraw the gesture path.
- * The new path is automatically normalized and saved to the gesture command.
+ * Lists the recorded samples with their hit counts so poor ones can be
+ * pruned, and provides a large drawing area where each release is
+ * normalized and added as another sample.
  */
 export class EditGestureDrawingModal extends Modal {
-  private gestureHandler!: GestureHandler;
+  private gestureHandler?: GestureHandler;
 
   constructor(
     app: App,
@@ -975,12 +1947,90 @@ export class EditGestureDrawingModal extends Modal {
   }
 
   onOpen() {
+    this.render();
+  }
+
+  private render() {
     const { contentEl } = this;
+    this.gestureHandler?.destroy();
     contentEl.empty();
     /* contentEl.addClass('edit-gesture-modal'); */
     this.setTitle(`Edit drawing for: ${this.gesture.name}`);
+    new Setting(contentEl)
+      .setName('Rotation invariant')
+      .setDesc('Recognize this gesture regardless of the angle it is drawn at')
+      .addToggle(toggle =>
+        toggle
+          .setValue(Boolean(this.gesture.rotationInvariant))
+          .onChange(value => {
+            this.gesture.rotationInvariant = value || undefined;
+            void this.plugin.saveSettings();
+          }),
+      );
+    new Setting(contentEl)
+      .setName('Recognition threshold')
+      .setDesc(
+        'Minimum confidence for this gesture; reset to use the global value',
+      )
+      .addSlider(slider =>
+        slider
+          .setLimits(0.5, 0.99, 0.01)
+          .setDynamicTooltip()
+          .setValue(
+            this.gesture.threshold ?? this.plugin.settings.gestureThreshold,
+          )
+          .onChange(value => {
+            this.gesture.threshold = value;
+            void this.plugin.saveSettings();
+          }),
+      )
+      .addExtraButton(btn =>
+        btn
+          .setIcon('rotate-ccw')
+          .setTooltip('Use global threshold')
+          .onClick(() => {
+            delete this.gesture.threshold;
+            void this.plugin.saveSettings();
+            this.render();
+          }),
+      );
+
+    this.renderScope(contentEl);
+
+    const samples = new SettingGroup(contentEl).setHeading('Samples');
+    this.gesture.samples.forEach((sample, index) =>
+      samples.addSetting(
+        setting =>
+          void setting
+            .setName(`Sample ${index + 1}`)
+            .setDesc(
+              [
+                `${sample.hits} hits`,
+                (sample.touches ?? 1) > 1 ? `${sample.touches} fingers` : '',
+              ]
+                .filter(Boolean)
+                .join(' · '),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon(GestureHandler.getGestureIcon(this.gesture, index))
+                .setTooltip('Preview'),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Delete sample')
+                .onClick(() => {
+                  this.gesture.samples.splice(index, 1);
+                  void this.plugin.saveSettings();
+                  this.onSave();
+                  this.render();
+                }),
+            ),
+      ),
+    );
     new Setting(contentEl).setDesc(
-      'Draw the new gesture in the area below. It will be saved automatically when you release.',
+      'Draw a new sample in the area below. It will be added automatically when you release. Use several fingers for a multi-touch gesture.',
     );
 
     contentEl.setCssStyles({ paddingBottom: '70vh' });
@@ -989,30 +2039,181 @@ export class EditGestureDrawingModal extends Modal {
       this.app,
       new ButtonComponent(contentEl).setIcon('plus').setClass('mobile-fab')
         .buttonEl,
-      this.plugin.settings.gestureCommands.filter(gc => gc !== this.gesture),
-      (line: Offset[], gestureCommand: GestureCommand | null) => {
+      this.competingGestures(),
+      (
+        input: GestureInput,
+        gestureCommand: GestureCommand | null,
+        candidates: GestureMatch[],
+      ) => {
         // Found a matching gesture, do not save
-        if (gestureCommand)
+        if (gestureCommand) {
+          const score =
+            candidates.find(c => c.gesture === gestureCommand)?.score ?? 0;
           return new Notice(
-            `Gesture matches existing command: ${gestureCommand.name}`,
+            `Gesture matches existing command: ${gestureCommand.name} (${Math.round(score * 100)}% confidence)`,
           );
+        }
 
-        this.gesture.gesturePath = JSON.stringify(
-          line.map((p: Offset) => [
-            Number(p.x.toFixed(2)),
-            Number(p.y.toFixed(2)),
-          ]),
-        );
+        this.gesture.samples.push(GestureHandler.toSample(input));
         void this.plugin.saveSettings();
         this.onSave();
-        this.close();
+        this.render();
       },
       true,
+      this.plugin.settings.gestureThreshold,
+      this.plugin.settings.gestureStrokeTimeout,
+    );
+  }
+
+  /**
+   * Gestures a new sample could be confused with, given the current scope.
+   */
+  private competingGestures(): GestureCommand[] {
+    return this.plugin.settings.gestureCommands.filter(
+      gc =>
+        gc !== this.gesture && GestureHandler.scopesCollide(gc, this.gesture),
+    );
+  }
+
+  private updateHandler() {
+    this.gestureHandler?.update(
+      this.competingGestures(),
+      this.plugin.settings.gestureThreshold,
+      this.plugin.settings.gestureStrokeTimeout,
+    );
+  }
+
+  /**
+   * Toggles limiting the gesture to views and editor contexts. With none
+   * selected the gesture works everywhere; a scoped gesture overrides a
+   * similar unscoped one where it applies.
+   */
+  private renderScope(contentEl: HTMLElement) {
+    const toggleIn = <T extends string>(
+      list: T[] | undefined,
+      value: T,
+      on: boolean,
+    ): T[] | undefined => {
+      const next = (list ?? []).filter(v => v !== value);
+      if (on) next.push(value);
+      return next.length ? next : undefined;
+    };
+
+    const views = new SettingGroup(contentEl).setHeading('Only in views');
+    Object.entries(viewTypeDisplayNames).forEach(([viewType, name]) =>
+      views.addSetting(
+        setting =>
+          void setting.setName(name).addToggle(toggle =>
+            toggle
+              .setValue(Boolean(this.gesture.viewTypes?.includes(viewType)))
+              .onChange(value => {
+                this.gesture.viewTypes = toggleIn(
+                  this.gesture.viewTypes,
+                  viewType,
+                  value,
+                );
+                void this.plugin.saveSettings();
+                this.updateHandler();
+              }),
+          ),
+      ),
+    );
+
+    const contexts = new SettingGroup(contentEl).setHeading(
+      'Only in editor contexts',
+    );
+    availableContexts(this.plugin).forEach(contextType =>
+      contexts.addSetting(
+        setting =>
+          void setting
+            .setName(contextDisplayName(this.plugin, contextType))
+            .addToggle(toggle =>
+              toggle
+                .setValue(Boolean(this.gesture.contexts?.includes(contextType)))
+                .onChange(value => {
+                  this.gesture.contexts = toggleIn(
+                    this.gesture.contexts,
+                    contextType,
+                    value,
+                  );
+                  void this.plugin.saveSettings();
+                  this.updateHandler();
+                }),
+            ),
+      ),
     );
   }
 
   onClose() {
     this.gestureHandler?.destroy();
     this.contentEl.empty();
+    // A gesture without samples can never match, so drop it
+    if (this.gesture.samples.length === 0) {
+      this.plugin.settings.gestureCommands.remove(this.gesture);
+      void this.plugin.saveSettings();
+      this.onSave();
+    }
+  }
+}
+
+export type GestureConflictChoice = 'replace' | 'keep' | 'redraw';
+
+/**
+ * Modal warning that a gesture closely resembles an existing one.
+ *
+ * Shows both shapes side by side with their similarity and lets the user
+ * replace the existing gesture, keep both, or redraw the new one. Closing
+ * the modal without choosing counts as cancelling.
+ *
+ * @extends Modal
+ */
+export class GestureConflictModal extends Modal {
+  constructor(
+    app: App,
+    private conflict: GestureConflict,
+    private onChoose: (choice: GestureConflictChoice) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { gesture, other, similarity } = this.conflict;
+    this.setTitle('Similar gesture found');
+    new Setting(contentEl).setDesc(
+      `This gesture is ${Math.round(similarity * 100)}% similar to "${other.name}" and may trigger it by mistake.`,
+    );
+
+    const preview = contentEl.createDiv('mobile-gesture-conflict-preview');
+    [gesture, other].forEach(g => {
+      const item = preview.createDiv('mobile-gesture-conflict-item');
+      setIcon(item.createDiv(), GestureHandler.getGestureIcon(g));
+      item.createDiv({ text: g.name });
+    });
+
+    const choose = (choice: GestureConflictChoice) => {
+      this.close();
+      this.onChoose(choice);
+    };
+    new Setting(contentEl)
+      .addButton(btn =>
+        btn
+          .setButtonText(`Replace "${other.name}"`)
+          .setWarning()
+          .onClick(() => choose('replace')),
+      )
+      .addButton(btn =>
+        btn.setButtonText('Keep both').onClick(() => choose('keep')),
+      )
+      .addButton(btn =>
+        btn
+          .setButtonText('Redraw')
+          .setCta()
+          .onClick(() => choose('redraw')),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
   }
 }
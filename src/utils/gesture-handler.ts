@@ -1,18 +1,127 @@
 import { App, addIcon } from 'obsidian';
+import { ContextType } from '../settings';
 
 /**
  * Represents a command that can be triggered by a gesture.
  *
  * @property name - The display name of the gesture command.
  * @property commandId - The unique identifier for the command to execute.
- * @property gesturePath - The path or pattern representing the gesture.
+ * @property samples - Recorded drawings of the gesture; any of them can match.
+ * @property gesturePath - Legacy single path, migrated to `samples` on load.
+ * @property rotationInvariant - Match the shape regardless of the angle it is drawn at.
+ * @property threshold - Minimum confidence (0-1) required to match; overrides the global threshold.
+ * @property contexts - Editor contexts the gesture is limited to; unset means everywhere.
+ * @property viewTypes - View types the gesture is limited to; unset means everywhere.
+ * @property lastUsed - When the gesture was last recognized, in milliseconds since the epoch.
+ * @property nearMisses - How many unrecognized drawings scored just under this gesture's threshold.
  */
 export interface GestureCommand {
   name: string;
   commandId: string;
-  gesturePath: string;
+  samples: GestureSample[];
+  gesturePath?: string;
+  rotationInvariant?: boolean;
+  threshold?: number;
+  contexts?: ContextType[];
+  viewTypes?: string[];
+  lastUsed?: number;
+  nearMisses?: number;
 }
 
+/**
+ * Where a gesture is being drawn, used to pick context-scoped gestures.
+ *
+ * @property viewType - Type of the view the gesture was drawn over.
+ * @property contexts - Editor contexts at the cursor, empty outside editors.
+ */
+export interface GestureContext {
+  viewType: string;
+  contexts: Set<ContextType>;
+}
+
+/**
+ * A single recorded drawing of a gesture.
+ *
+ * @property path - JSON array of `[x, y]` points relative to the start point,
+ *   or an array of such strokes for multi-stroke and multi-touch gestures.
+ * @property hits - How many times this sample produced a recognized gesture.
+ * @property touches - Number of fingers used at once (defaults to 1).
+ */
+export interface GestureSample {
+  path: string;
+  hits: number;
+  touches?: number;
+}
+
+/**
+ * Moves the legacy single path of a gesture into its samples list.
+ */
+export function migrateGestureSamples(gesture: GestureCommand): void {
+  gesture.samples ??= [];
+  if (gesture.gesturePath) {
+    gesture.samples.push({ path: gesture.gesturePath, hits: 0 });
+  }
+  delete gesture.gesturePath;
+}
+
+/**
+ * A drawn gesture, normalized relative to the start of its first stroke.
+ *
+ * @property strokes - One point list per stroke or finger.
+ * @property touches - Maximum number of fingers down at the same time.
+ */
+export interface GestureInput {
+  strokes: Offset[][];
+  touches: number;
+}
+
+/**
+ * A candidate produced by the recognizer, ranked by confidence.
+ *
+ * @property gesture - The gesture command that was compared.
+ * @property sample - The sample of that gesture that scored best.
+ * @property score - Confidence between 0 (no resemblance) and 1 (identical).
+ */
+export interface GestureMatch {
+  gesture: GestureCommand;
+  sample: GestureSample | null;
+  score: number;
+}
+
+/**
+ * Two gestures whose samples are similar enough to be confused.
+ *
+ * @property gesture - The gesture being checked.
+ * @property other - The existing gesture it resembles.
+ * @property similarity - Best confidence between any pair of their samples.
+ */
+export interface GestureConflict {
+  gesture: GestureCommand;
+  other: GestureCommand;
+  similarity: number;
+}
+
+/** Default minimum confidence for a gesture to be recognized. */
+export const DEFAULT_GESTURE_THRESHOLD = 0.8;
+
+/**
+ * How far below the recognition threshold two gestures may score against
+ * each other before they are reported as conflicting.
+ */
+export const GESTURE_CONFLICT_MARGIN = 0.1;
+
+// Recognizer constants, following the $1 unistroke recognizer
+const SAMPLE_POINTS = 64;
+const SQUARE_SIZE = 250;
+const HALF_DIAGONAL = 0.5 * Math.sqrt(2 * SQUARE_SIZE * SQUARE_SIZE);
+const ANGLE_RANGE = Math.PI / 4;
+const ANGLE_PRECISION = Math.PI / 90;
+const PHI = 0.5 * (Math.sqrt(5) - 1);
+// Strokes shorter than this are treated as taps
+const MIN_STROKE_LENGTH = 30;
+// Mouse input is tracked as a single pointer with this id
+const MOUSE_POINTER_ID = -1;
+
 /**
  * Represents a 2D coordinate offset or vector.
  *
@@ -42,6 +151,15 @@ export class Offset {
     const dy = this.y - other.y;
     return Math.sqrt(dx * dx + dy * dy);
   }
+  rotate(angle: number, origin: Offset = new Offset(0, 0)): Offset {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const d = this.subtract(origin);
+    return new Offset(
+      d.x * cos - d.y * sin + origin.x,
+      d.x * sin + d.y * cos + origin.y,
+    );
+  }
   applyDampening(dampening: number): Offset {
     // Non-linear dampening: use a power function for smoother effect
     return new Offset(
@@ -64,84 +182,227 @@ function setCssProps(el: HTMLElement, props: Record<string, string>): void {
  * Captures mouse/touch drag events on an element and analyzes the drawn
  * path to match against known gesture patterns. Features include:
  * - Path recording and normalization
- * - Gesture pattern matching using angular difference
+ * - Multi-touch gestures (every finger is recorded as its own stroke)
+ * - Multi-stroke gestures (further strokes within the stroke timeout)
+ * - Gesture pattern matching against every recorded sample
  * - Visual feedback with temporary trail lines
  * - Success/failure animations
  * - Callback for unrecognized gestures
  *
- * The recognition algorithm:
+ * The recognition algorithm ($1-style template matching):
  * 1. Records touch/mouse positions during drag
- * 2. Normalizes the path (translate to origin, resample to fixed points)
- * 3. Compares angular vectors against stored gesture patterns
- * 4. Matches if difference is below threshold
- * 5. Executes associated command or triggers unknown gesture callback
+ * 2. Joins the strokes, resamples the path, scales it uniformly and
+ *    centers it on its centroid
+ * 3. Optionally rotates it to its indicative angle (per gesture)
+ * 4. Scores every sample with the same stroke and finger count by
+ *    average point distance, drawn either way round, best first
+ * 5. Matches the best candidate whose confidence reaches its threshold
+ * 6. Executes associated command or triggers unknown gesture callback
  */
 export class GestureHandler {
   private start: Offset = new Offset(0, 0);
-  private last: Offset = new Offset(0, 0);
-  private line: Offset[] = [];
+  private strokes: Offset[][] = [];
+  private activeStrokes: Map<number, Offset[]> = new Map();
+  private touches = 0;
+  private strokeTimer: number | null = null;
+  private movesElement = true;
+  private matchCallback?: (match: GestureMatch) => void;
+  private contextProvider?: () => GestureContext | null;
 
   constructor(
     private app: App,
     private element: HTMLElement,
     private gestureCommands: GestureCommand[],
     private onUnknown: (
-      line: Offset[],
+      input: GestureInput,
       gestureCommand: GestureCommand | null,
+      candidates: GestureMatch[],
     ) => void,
     private dryRun: boolean = false,
+    private threshold: number = DEFAULT_GESTURE_THRESHOLD,
+    private strokeTimeout: number = 0,
   ) {
     this.element.addEventListener('touchstart', this.startDrag);
     this.element.addEventListener('mousedown', this.startDrag);
   }
 
+  /**
+   * Replaces the gesture set, global threshold and multi-stroke timeout,
+   * e.g. after settings change.
+   */
+  update(
+    gestureCommands: GestureCommand[],
+    threshold: number,
+    strokeTimeout: number,
+  ): void {
+    this.gestureCommands = gestureCommands;
+    this.threshold = threshold;
+    this.strokeTimeout = strokeTimeout;
+  }
+
+  /**
+   * Registers a callback invoked whenever a gesture is recognized.
+   */
+  onMatch(cb: (match: GestureMatch) => void): this {
+    this.matchCallback = cb;
+    return this;
+  }
+
+  /**
+   * Controls whether the element follows the first stroke while drawing.
+   * Surfaces such as edge zones should stay in place.
+   */
+  setMovesElement(movesElement: boolean): this {
+    this.movesElement = movesElement;
+    return this;
+  }
+
+  /**
+   * Supplies the current view and editor context. Without one, every
+   * gesture is considered regardless of its scope.
+   */
+  setContextProvider(cb: () => GestureContext | null): this {
+    this.contextProvider = cb;
+    return this;
+  }
+
+  /**
+   * Abandons the gesture being drawn without recognizing it, e.g. when a
+   * long press opens a menu instead.
+   */
+  cancel(): void {
+    this.stopListening();
+    this.clearStrokeTimer();
+    this.activeStrokes.clear();
+    this.strokes = [];
+    setCssProps(this.element, { translate: '0px 0px' });
+  }
+
+  /**
+   * Whether a gesture is being drawn or waiting for its next stroke.
+   */
+  isPending(): boolean {
+    return this.activeStrokes.size > 0 || this.strokeTimer !== null;
+  }
+
   destroy() {
     this.element.removeEventListener('touchstart', this.startDrag);
     this.element.removeEventListener('mousedown', this.startDrag);
+    this.stopListening();
+    this.clearStrokeTimer();
   }
 
   startDrag = (e: MouseEvent | TouchEvent): void => {
-    if (e instanceof MouseEvent) {
-      this.start = new Offset(e.clientX, e.clientY);
-      window.activeDocument.addEventListener('mousemove', this.onDrag);
-      window.activeDocument.addEventListener('mouseup', this.endDrag);
-    } else if (e.touches && e.touches.length > 0) {
-      this.start = new Offset(e.touches[0].clientX, e.touches[0].clientY);
-      window.activeDocument.addEventListener('touchmove', this.onDrag);
-      window.activeDocument.addEventListener('touchend', this.endDrag);
+    if (this.strokeTimer !== null) {
+      // Continue a multi-stroke gesture instead of tapping through
+      e.preventDefault();
+      this.clearStrokeTimer();
+    } else if (this.activeStrokes.size === 0) {
+      this.strokes = [];
+      this.touches = 0;
+    }
+    for (const [id, point] of GestureHandler.getPointers(e)) {
+      if (this.activeStrokes.has(id)) continue;
+      if (this.strokes.length === 0) this.start = point;
+      const stroke = [point];
+      this.activeStrokes.set(id, stroke);
+      this.strokes.push(stroke);
     }
-    this.last = this.start;
-    this.line = [this.start];
+    this.touches = Math.max(this.touches, this.activeStrokes.size);
+    this.startListening();
   };
 
   onDrag = (e: MouseEvent | TouchEvent): void => {
     e.stopPropagation();
-    let client: Offset;
-    if (e instanceof MouseEvent) {
-      client = new Offset(e.clientX, e.clientY);
-    } else if (e.touches && e.touches.length > 0) {
-      client = new Offset(e.touches[0].clientX, e.touches[0].clientY);
-    } else {
-      return;
+    for (const [id, client] of GestureHandler.getPointers(e)) {
+      const stroke = this.activeStrokes.get(id);
+      if (!stroke) continue;
+      GestureHandler.drawTempline(stroke[stroke.length - 1], client, 1000);
+      stroke.push(client);
+      // Only the first stroke drags the element along
+      if (this.movesElement && stroke === this.strokes[0]) {
+        const d = client.subtract(this.start).applyDampening(0.5);
+        setCssProps(this.element, { translate: `${d.x}px ${d.y}px` });
+      }
     }
-    const d = client.subtract(this.start).applyDampening(0.5);
-    GestureHandler.drawTempline(this.last, client, 1000);
-    this.last = client;
-    this.line.push(client);
-    setCssProps(this.element, { translate: `${d.x}px ${d.y}px` });
   };
 
-  endDrag = (): void => {
-    setCssProps(this.element, { translate: '0px 0px' });
+  endDrag = (e: MouseEvent | TouchEvent): void => {
+    for (const [id] of GestureHandler.getPointers(e)) {
+      this.activeStrokes.delete(id);
+    }
+    // Wait until every finger has been lifted
+    if (this.activeStrokes.size > 0) return;
 
-    window.activeDocument.removeEventListener('mousemove', this.onDrag);
-    window.activeDocument.removeEventListener('mouseup', this.endDrag);
-    window.activeDocument.removeEventListener('touchmove', this.onDrag);
-    window.activeDocument.removeEventListener('touchend', this.endDrag);
+    setCssProps(this.element, { translate: '0px 0px' });
+    this.stopListening();
 
+    const isTap =
+      this.strokes.length === 1 &&
+      GestureHandler.getLength(this.strokes[0]) < MIN_STROKE_LENGTH;
+    if (this.strokeTimeout > 0 && !isTap) {
+      // Give the user a moment to start another stroke
+      this.strokeTimer = window.setTimeout(() => {
+        this.strokeTimer = null;
+        this.stopListening();
+        this.detectGesture();
+      }, this.strokeTimeout);
+      window.activeDocument.addEventListener('touchstart', this.startDrag, {
+        capture: true,
+        passive: false,
+      });
+      window.activeDocument.addEventListener('mousedown', this.startDrag, {
+        capture: true,
+      });
+      return;
+    }
     this.detectGesture();
   };
 
+  private startListening(): void {
+    const doc = window.activeDocument;
+    doc.addEventListener('mousemove', this.onDrag);
+    doc.addEventListener('mouseup', this.endDrag);
+    doc.addEventListener('touchmove', this.onDrag);
+    doc.addEventListener('touchend', this.endDrag);
+    doc.addEventListener('touchcancel', this.endDrag);
+    // Further fingers may land outside the element
+    doc.addEventListener('touchstart', this.startDrag, {
+      capture: true,
+      passive: false,
+    });
+  }
+
+  private stopListening(): void {
+    const doc = window.activeDocument;
+    doc.removeEventListener('mousemove', this.onDrag);
+    doc.removeEventListener('mouseup', this.endDrag);
+    doc.removeEventListener('touchmove', this.onDrag);
+    doc.removeEventListener('touchend', this.endDrag);
+    doc.removeEventListener('touchcancel', this.endDrag);
+    doc.removeEventListener('touchstart', this.startDrag, { capture: true });
+    doc.removeEventListener('mousedown', this.startDrag, { capture: true });
+  }
+
+  private clearStrokeTimer(): void {
+    if (this.strokeTimer === null) return;
+    window.clearTimeout(this.strokeTimer);
+    this.strokeTimer = null;
+  }
+
+  /**
+   * Pointers changed by an event, keyed by touch identifier.
+   */
+  private static getPointers(e: MouseEvent | TouchEvent): [number, Offset][] {
+    if (e instanceof MouseEvent) {
+      return [[MOUSE_POINTER_ID, new Offset(e.clientX, e.clientY)]];
+    }
+    return Array.from(e.changedTouches ?? []).map(t => [
+      t.identifier,
+      new Offset(t.clientX, t.clientY),
+    ]);
+  }
+
   static drawTempline(start: Offset, end: Offset, lifeTime = 1000): void {
     const line = window.activeDocument.body.createDiv({
       cls: 'mobile-fab-dragline',
@@ -165,7 +426,7 @@ export class GestureHandler {
     window.setTimeout(() => line.remove(), lifeTime);
   }
 
-  drawGesture(line: Offset[]): void {
+  drawGesture(strokes: Offset[][]): void {
     // start in the middle of the FAB
     const start = new Offset(
       this.element.getBoundingClientRect().left +
@@ -173,54 +434,116 @@ export class GestureHandler {
       this.element.getBoundingClientRect().top +
         this.element.getBoundingClientRect().height / 2,
     );
-    for (let i = 0; i < line.length - 1; i++) {
-      GestureHandler.drawTempline(
-        line[i].add(start),
-        line[i + 1].add(start),
-        3000,
-      );
+    for (const line of strokes) {
+      for (let i = 0; i < line.length - 1; i++) {
+        GestureHandler.drawTempline(
+          line[i].add(start),
+          line[i + 1].add(start),
+          3000,
+        );
+      }
     }
   }
 
-  findGesture(line: Offset[]): GestureCommand | null {
-    const normalizedInput = GestureHandler.normalizeLine(line);
-    let bestMatch: GestureCommand | null = null;
-    let minDiff = Infinity;
+  /**
+   * Scores the drawn gesture against every gesture available in the
+   * current context, best candidate first.
+   */
+  rankGestures(input: GestureInput): GestureMatch[] {
+    const context = this.contextProvider?.() ?? null;
+    return GestureHandler.rankGestures(
+      input,
+      context
+        ? this.gestureCommands.filter(g =>
+            GestureHandler.isAvailable(g, context),
+          )
+        : this.gestureCommands,
+    );
+  }
 
-    for (const gesture of this.gestureCommands) {
-      const parsedPath = JSON.parse(gesture.gesturePath) as number[][];
-      const normalizedPreset = parsedPath.map(
-        (p: number[]) => new Offset(p[0], p[1]),
-      );
-      const diff = GestureHandler.calculateDifference(
-        normalizedInput,
-        normalizedPreset,
-      );
+  findGesture(input: GestureInput): GestureCommand | null {
+    return this.pickMatch(this.rankGestures(input))?.gesture ?? null;
+  }
 
-      if (diff < minDiff) {
-        minDiff = diff;
-        bestMatch = gesture;
-      }
-    }
+  /**
+   * Picks the match among candidates that reach their threshold. A gesture
+   * scoped to the current context overrides a more general one.
+   */
+  private pickMatch(candidates: GestureMatch[]): GestureMatch | null {
+    const passing = candidates.filter(
+      c => c.score >= (c.gesture.threshold ?? this.threshold),
+    );
+    return passing.reduce<GestureMatch | null>(
+      (best, c) =>
+        !best ||
+        GestureHandler.specificity(c.gesture) >
+          GestureHandler.specificity(best.gesture)
+          ? c
+          : best,
+      null,
+    );
+  }
 
-    if (bestMatch && minDiff < 0.5) {
-      return bestMatch;
+  /**
+   * Whether a gesture's scope allows it in the given context.
+   */
+  static isAvailable(
+    gesture: GestureCommand,
+    context: GestureContext,
+  ): boolean {
+    if (gesture.viewTypes?.length) {
+      if (!gesture.viewTypes.includes(context.viewType)) return false;
+    }
+    if (gesture.contexts?.length) {
+      if (!gesture.contexts.some(c => context.contexts.has(c))) return false;
     }
-    return null;
+    return true;
+  }
+
+  /**
+   * How narrowly a gesture is scoped: view and editor context restrictions
+   * each count once.
+   */
+  static specificity(gesture: GestureCommand): number {
+    return (
+      Number(Boolean(gesture.viewTypes?.length)) +
+      Number(Boolean(gesture.contexts?.length))
+    );
+  }
+
+  /**
+   * Whether two gestures can be active at the same time with neither
+   * overriding the other.
+   */
+  static scopesCollide(a: GestureCommand, b: GestureCommand): boolean {
+    const overlaps = (x?: string[], y?: string[]) =>
+      !x?.length || !y?.length || x.some(v => y.includes(v));
+    return (
+      overlaps(a.viewTypes, b.viewTypes) &&
+      overlaps(a.contexts, b.contexts) &&
+      GestureHandler.specificity(a) === GestureHandler.specificity(b)
+    );
   }
 
   detectGesture(): void {
-    if (this.line.length < 2) return;
-    if (GestureHandler.getLength(this.line) < 100) return;
+    const points = this.strokes.flat();
+    if (points.length < 2) return;
+    const totalLength = this.strokes.reduce(
+      (sum, stroke) => sum + GestureHandler.getLength(stroke),
+      0,
+    );
+    if (totalLength < 100) return;
 
-    const normalizedInput = GestureHandler.normalizeLine(this.line);
-    const bestMatch = this.findGesture(this.line);
+    const normalizedInput = GestureHandler.normalizeInput(
+      this.strokes,
+      this.touches,
+    );
+    const candidates = this.rankGestures(normalizedInput);
+    const match = this.pickMatch(candidates);
 
-    if (bestMatch) {
-      const parsedBestMatch = JSON.parse(bestMatch.gesturePath) as number[][];
-      this.drawGesture(
-        parsedBestMatch.map((p: number[]) => new Offset(p[0], p[1])),
-      );
+    if (match) {
+      const bestMatch = match.gesture;
+      this.drawGesture(GestureHandler.parseStrokes(match.sample?.path ?? ''));
       // Animate FAB to indicate success
       this.element.removeClass('gesture-animating');
       window.requestAnimationFrame(() => {
@@ -231,15 +554,256 @@ export class GestureHandler {
         });
       });
       if (!this.dryRun) {
+        this.matchCallback?.(match);
         this.app.commands?.executeCommandById?.(bestMatch.commandId);
       } else {
-        this.onUnknown(normalizedInput, bestMatch);
+        this.onUnknown(normalizedInput, bestMatch, candidates);
       }
     } else {
       // Draw the gesture for user feedback
-      this.drawGesture(normalizedInput);
-      this.onUnknown(normalizedInput, null);
+      this.drawGesture(normalizedInput.strokes);
+      this.onUnknown(normalizedInput, null, candidates);
+    }
+  }
+
+  /**
+   * Scores a line against a set of gestures and returns them best first.
+   * Each gesture is represented by its best scoring sample.
+   */
+  static rankGestures(
+    input: GestureInput,
+    gestureCommands: GestureCommand[],
+  ): GestureMatch[] {
+    // Strokes are joined in order and compared as a single path
+    const line = input.strokes.flat();
+    // The input only needs to be prepared once for each rotation mode
+    const prepared = new Map<boolean, Offset[]>();
+    const prepare = (rotationInvariant: boolean): Offset[] => {
+      let points = prepared.get(rotationInvariant);
+      if (!points) {
+        points = GestureHandler.toTemplate(line, rotationInvariant);
+        prepared.set(rotationInvariant, points);
+      }
+      return points;
+    };
+
+    return gestureCommands
+      .map(gesture => {
+        const rotationInvariant = Boolean(gesture.rotationInvariant);
+        const best: GestureMatch = { gesture, sample: null, score: 0 };
+        for (const sample of gesture.samples) {
+          if ((sample.touches ?? 1) !== input.touches) continue;
+          const strokes = GestureHandler.parseStrokes(sample.path);
+          if (strokes.length !== input.strokes.length) continue;
+          const template = strokes.flat();
+          if (template.length < 2) continue;
+          const score = GestureHandler.scoreEitherDirection(
+            prepare(rotationInvariant),
+            template,
+            rotationInvariant,
+          );
+          if (!best.sample || score > best.score) {
+            best.sample = sample;
+            best.score = score;
+          }
+        }
+        return best;
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Serializes a normalized line for storage as a gesture sample path.
+   */
+  static serializePath(line: Offset[]): string {
+    return JSON.stringify(GestureHandler.roundLine(line));
+  }
+
+  /**
+   * Creates a sample from a normalized gesture. Single strokes keep the
+   * original flat path format so older versions can still read them.
+   */
+  static toSample(input: GestureInput): GestureSample {
+    const path =
+      input.strokes.length === 1
+        ? GestureHandler.serializePath(input.strokes[0])
+        : JSON.stringify(
+            input.strokes.map(stroke => GestureHandler.roundLine(stroke)),
+          );
+    return input.touches > 1
+      ? { path, hits: 0, touches: input.touches }
+      : { path, hits: 0 };
+  }
+
+  /**
+   * Turns a stored sample back into a gesture input, e.g. to save it again.
+   */
+  static toInput(sample: GestureSample): GestureInput {
+    return {
+      strokes: GestureHandler.parseStrokes(sample.path),
+      touches: sample.touches ?? 1,
+    };
+  }
+
+  private static roundLine(line: Offset[]): number[][] {
+    return line.map(p => [Number(p.x.toFixed(2)), Number(p.y.toFixed(2))]);
+  }
+
+  /**
+   * Parses a stored gesture path into its strokes, accepting both the flat
+   * single-stroke format and the nested multi-stroke format.
+   */
+  static parseStrokes(gesturePath: string): Offset[][] {
+    if (!gesturePath) return [];
+    const parsed = JSON.parse(gesturePath) as number[][] | number[][][];
+    if (parsed.length === 0) return [];
+    const strokes = (
+      Array.isArray(parsed[0][0]) ? parsed : [parsed]
+    ) as number[][][];
+    return strokes.map(stroke => stroke.map(p => new Offset(p[0], p[1])));
+  }
+
+  /**
+   * Parses a stored gesture path, returning an empty line if it is unset.
+   * Multi-stroke paths are joined into one line.
+   */
+  static parsePath(gesturePath: string): Offset[] {
+    return GestureHandler.parseStrokes(gesturePath).flat();
+  }
+
+  /**
+   * Converts a raw line into a comparable template: resampled, optionally
+   * rotated to its indicative angle, uniformly scaled and centered.
+   */
+  static toTemplate(line: Offset[], rotationInvariant: boolean): Offset[] {
+    let points = GestureHandler.resample(line, SAMPLE_POINTS);
+    if (points.length === 0) return points;
+    if (rotationInvariant) {
+      const centroid = GestureHandler.centroid(points);
+      const angle = Math.atan2(
+        centroid.y - points[0].y,
+        centroid.x - points[0].x,
+      );
+      points = points.map(p => p.rotate(-angle, centroid));
+    }
+
+    // Uniform scaling keeps straight lines from collapsing to a point
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const size = Math.max(
+      Math.max(...xs) - Math.min(...xs),
+      Math.max(...ys) - Math.min(...ys),
+      1,
+    );
+    const scale = SQUARE_SIZE / size;
+    const scaled = points.map(p => new Offset(p.x * scale, p.y * scale));
+    const centroid = GestureHandler.centroid(scaled);
+    return scaled.map(p => p.subtract(centroid));
+  }
+
+  /**
+   * Confidence (0-1) that two prepared templates describe the same shape.
+   * Rotation-invariant templates are aligned with a golden section search.
+   */
+  static scoreTemplates(
+    points: Offset[],
+    template: Offset[],
+    rotationInvariant: boolean,
+  ): number {
+    const distance = rotationInvariant
+      ? GestureHandler.distanceAtBestAngle(points, template)
+      : GestureHandler.pathDistance(points, template);
+    return Math.max(0, 1 - distance / HALF_DIAGONAL);
+  }
+
+  /**
+   * Scores a prepared template against a raw line and against the same line
+   * reversed, so a shape drawn from its other end still matches.
+   */
+  static scoreEitherDirection(
+    points: Offset[],
+    line: Offset[],
+    rotationInvariant: boolean,
+  ): number {
+    return Math.max(
+      ...[line, [...line].reverse()].map(l =>
+        GestureHandler.scoreTemplates(
+          points,
+          GestureHandler.toTemplate(l, rotationInvariant),
+          rotationInvariant,
+        ),
+      ),
+    );
+  }
+
+  private static distanceAtBestAngle(
+    points: Offset[],
+    template: Offset[],
+  ): number {
+    const distanceAt = (angle: number) =>
+      GestureHandler.pathDistance(
+        points.map(p => p.rotate(angle)),
+        template,
+      );
+    let a = -ANGLE_RANGE;
+    let b = ANGLE_RANGE;
+    let x1 = PHI * a + (1 - PHI) * b;
+    let f1 = distanceAt(x1);
+    let x2 = (1 - PHI) * a + PHI * b;
+    let f2 = distanceAt(x2);
+    while (Math.abs(b - a) > ANGLE_PRECISION) {
+      if (f1 < f2) {
+        b = x2;
+        x2 = x1;
+        f2 = f1;
+        x1 = PHI * a + (1 - PHI) * b;
+        f1 = distanceAt(x1);
+      } else {
+        a = x1;
+        x1 = x2;
+        f1 = f2;
+        x2 = (1 - PHI) * a + PHI * b;
+        f2 = distanceAt(x2);
+      }
     }
+    return Math.min(f1, f2);
+  }
+
+  private static pathDistance(line1: Offset[], line2: Offset[]): number {
+    const n = Math.min(line1.length, line2.length);
+    if (n === 0) return Infinity;
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      total += line1[i].distanceTo(line2[i]);
+    }
+    return total / n;
+  }
+
+  private static centroid(line: Offset[]): Offset {
+    const sum = line.reduce((acc, p) => acc.add(p), new Offset(0, 0));
+    return new Offset(sum.x / line.length, sum.y / line.length);
+  }
+
+  /**
+   * Translates every stroke relative to the start of the first one and
+   * resamples each of them. Simultaneous strokes are ordered left to right
+   * since the order fingers land in is arbitrary.
+   */
+  static normalizeInput(strokes: Offset[][], touches: number): GestureInput {
+    const ordered =
+      touches > 1
+        ? [...strokes].sort((a, b) => a[0].x - b[0].x || a[0].y - b[0].y)
+        : strokes;
+    const start = ordered[0]?.[0] ?? new Offset(0, 0);
+    return {
+      strokes: ordered.map(stroke =>
+        GestureHandler.resample(
+          stroke.map(p => p.subtract(start)),
+          40,
+        ),
+      ),
+      touches: Math.max(touches, 1),
+    };
   }
 
   static normalizeLine(line: Offset[]): Offset[] {
@@ -301,24 +865,60 @@ export class GestureHandler {
   /**
    * Registers a gesture path as an Obsidian icon and returns the icon name.
    *
-   * @param id - Unique identifier for the gesture (to generate icon name)
-   * @param gesture - GestureCommand object containing the gesture path
+   * @param gesture - GestureCommand object containing the gesture samples
+   * @param sampleIndex - Which sample to draw (defaults to the first)
    * @returns The registered icon name (e.g., 'mobile-gesture-...')
    */
-  static getGestureIcon(gesture: GestureCommand): string {
-    const id = `${gesture.commandId}-${Date.now()}`;
-    const parsedPath = JSON.parse(gesture.gesturePath) as number[][];
-    const iconName = `mobile-gesture-${id}`;
+  static getGestureIcon(gesture: GestureCommand, sampleIndex = 0): string {
+    const path = gesture.samples[sampleIndex]?.path ?? '';
+    // Named after the drawing so each one is only registered once
+    const iconName = `mobile-gesture-${GestureHandler.hashPath(path)}`;
+    if (GestureHandler.registeredIcons.has(iconName)) return iconName;
+
+    const strokes = GestureHandler.parseStrokes(path);
+    if (strokes.flat().length < 2) return 'lucide-help-circle';
+
+    // Center and scale to 100x100 (standard Obsidian icon size)
+    // One polyline per stroke so multi-stroke shapes are not joined up
+    const innerSVG = GestureHandler.fitStrokes(strokes, 100, 15)
+      .map(
+        points =>
+          `<polyline points="${points}" fill="none" stroke="currentColor" stroke-width="8" stroke-linecap="round" stroke-linejoin="round" />`,
+      )
+      .join('');
+
+    addIcon(iconName, innerSVG);
+    GestureHandler.registeredIcons.add(iconName);
 
-    if (parsedPath.length < 2) return 'lucide-help-circle';
+    return iconName;
+  }
 
-    // Find bounds to center and scale to 100x100 (standard Obsidian icon size)
-    const size = 100;
+  private static registeredIcons = new Set<string>();
+
+  /** Short string hash (djb2) of a sample path, for icon names */
+  private static hashPath(path: string): string {
+    let hash = 5381;
+    for (let i = 0; i < path.length; i++) {
+      hash = ((hash << 5) + hash + path.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  /**
+   * Scales strokes to fit a square, keeping their aspect ratio and centering
+   * them.
+   *
+   * @param strokes - Strokes to fit, sharing one coordinate space
+   * @param size - Width and height of the square
+   * @param padding - Empty space left on every side
+   * @returns One SVG `points` attribute value per stroke
+   */
+  static fitStrokes(strokes: Offset[][], size: number, padding: number) {
     let minX = Infinity,
       minY = Infinity,
       maxX = -Infinity,
       maxY = -Infinity;
-    parsedPath.forEach(([x, y]) => {
+    strokes.flat().forEach(({ x, y }) => {
       minX = Math.min(minX, x);
       minY = Math.min(minY, y);
       maxX = Math.max(maxX, x);
@@ -327,46 +927,114 @@ export class GestureHandler {
 
     const width = maxX - minX;
     const height = maxY - minY;
-    const padding = 15;
     const availableSize = size - padding * 2;
     const scale = availableSize / Math.max(width, height, 1);
 
-    const points = parsedPath
-      .map(([x, y]) => {
-        const nx =
-          (x - minX) * scale + padding + (availableSize - width * scale) / 2;
-        const ny =
-          (y - minY) * scale + padding + (availableSize - height * scale) / 2;
-        return `${nx.toFixed(1)},${ny.toFixed(1)}`;
-      })
-      .join(' ');
-
-    const innerSVG = `<polyline points="${points}" fill="none" stroke="currentColor" stroke-width="8" stroke-linecap="round" stroke-linejoin="round" />`;
-
-    addIcon(iconName, innerSVG);
-
-    return iconName;
+    return strokes.map(stroke =>
+      stroke
+        .map(({ x, y }) => {
+          const nx =
+            (x - minX) * scale + padding + (availableSize - width * scale) / 2;
+          const ny =
+            (y - minY) * scale + padding + (availableSize - height * scale) / 2;
+          return `${nx.toFixed(1)},${ny.toFixed(1)}`;
+        })
+        .join(' '),
+    );
   }
 
-  static calculateDifference(line1: Offset[], line2: Offset[]): number {
-    let totalDiff = 0;
-    const n = Math.min(line1.length, line2.length);
-    if (n < 2) return Infinity;
-
-    for (let i = 0; i < n - 1; i++) {
-      const v1 = line1[i + 1].subtract(line1[i]);
-      const v2 = line2[i + 1].subtract(line2[i]);
+  /**
+   * Highest similarity (0-1) between any sample of one gesture and any
+   * sample of the other. Rotation invariance applies if either gesture uses it.
+   */
+  static gestureSimilarity(a: GestureCommand, b: GestureCommand): number {
+    const rotationInvariant = Boolean(
+      a.rotationInvariant || b.rotationInvariant,
+    );
+    let best = 0;
+    for (const sampleA of a.samples) {
+      const strokesA = GestureHandler.parseStrokes(sampleA.path);
+      for (const sampleB of b.samples) {
+        const strokesB = GestureHandler.parseStrokes(sampleB.path);
+        if (
+          strokesA.length !== strokesB.length ||
+          (sampleA.touches ?? 1) !== (sampleB.touches ?? 1)
+        )
+          continue;
+        const diff = GestureHandler.calculateDifference(
+          strokesA.flat(),
+          strokesB.flat(),
+          rotationInvariant,
+        );
+        best = Math.max(best, 1 - diff);
+      }
+    }
+    return best;
+  }
 
-      const angle1 = Math.atan2(v1.y, v1.x);
-      const angle2 = Math.atan2(v2.y, v2.x);
+  /**
+   * Finds the gestures in `others` that `gesture` could be mistaken for,
+   * most similar first. Gestures whose scopes never compete are skipped.
+   */
+  static findConflicts(
+    gesture: GestureCommand,
+    others: GestureCommand[],
+    threshold: number,
+  ): GestureConflict[] {
+    return others
+      .filter(
+        other =>
+          other !== gesture && GestureHandler.scopesCollide(gesture, other),
+      )
+      .map(other => ({
+        gesture,
+        other,
+        similarity: GestureHandler.gestureSimilarity(gesture, other),
+      }))
+      .filter(
+        c =>
+          c.similarity >=
+          Math.min(
+            gesture.threshold ?? threshold,
+            c.other.threshold ?? threshold,
+          ) -
+            GESTURE_CONFLICT_MARGIN,
+      )
+      .sort((a, b) => b.similarity - a.similarity);
+  }
 
-      let diff = Math.abs(angle1 - angle2);
-      if (diff > Math.PI) {
-        diff = 2 * Math.PI - diff;
-      }
+  /**
+   * Pairwise conflict analysis over a whole gesture set. Each conflicting
+   * pair is reported once.
+   */
+  static findAllConflicts(
+    gestures: GestureCommand[],
+    threshold: number,
+  ): GestureConflict[] {
+    return gestures
+      .flatMap((gesture, i) =>
+        GestureHandler.findConflicts(gesture, gestures.slice(i + 1), threshold),
+      )
+      .sort((a, b) => b.similarity - a.similarity);
+  }
 
-      totalDiff += diff;
-    }
-    return totalDiff / (n - 1);
+  /**
+   * Difference between two lines from 0 (identical) to 1 (unrelated),
+   * using the same normalization as gesture recognition.
+   */
+  static calculateDifference(
+    line1: Offset[],
+    line2: Offset[],
+    rotationInvariant = false,
+  ): number {
+    if (line1.length < 2 || line2.length < 2) return 1;
+    return (
+      1 -
+      GestureHandler.scoreEitherDirection(
+        GestureHandler.toTemplate(line1, rotationInvariant),
+        line2,
+        rotationInvariant,
+      )
+    );
   }
 }
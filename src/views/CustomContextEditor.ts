@@ -0,0 +1,121 @@
+import { App, Modal, SettingGroup } from 'obsidian';
+import {
+  contextRuleDesc,
+  ContextRuleType,
+  CustomContext,
+} from '../features/custom-contexts';
+import MobilePlugin from '../main';
+
+const ruleTypeNames = Object.fromEntries(
+  Object.entries(contextRuleDesc).map(([type, [name]]) => [type, name]),
+) as Record<ContextRuleType, string>;
+
+/**
+ * Modal editor for a custom context type.
+ *
+ * Provides an interface for:
+ * - Renaming the context
+ * - Choosing whether all rules or any rule must match
+ * - Adding, changing and removing rules
+ *
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class CustomContextEditor extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private context: CustomContext,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl, context } = this;
+    contentEl.empty();
+    this.setTitle('Edit context');
+
+    new SettingGroup(contentEl)
+      .addSetting(
+        setting =>
+          void setting.setName('Name').addText(text =>
+            text.setValue(context.name).onChange(async value => {
+              context.name = value;
+              await this.plugin.saveSettings();
+            }),
+          ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Match')
+            .addDropdown(dropdown =>
+              dropdown
+                .addOptions({ all: 'All rules', any: 'Any rule' })
+                .setValue(context.match)
+                .onChange(async value => {
+                  context.match = value as CustomContext['match'];
+                  await this.plugin.saveSettings();
+                }),
+            )
+            .addButton(button =>
+              button.setButtonText('Add rule').onClick(async () => {
+                context.rules.push({ type: 'line', value: '' });
+                await this.plugin.saveSettings();
+                this.render();
+              }),
+            ),
+      );
+
+    const rules = new SettingGroup(contentEl).setHeading('Rules');
+    context.rules.forEach((rule, index) =>
+      rules.addSetting(
+        setting =>
+          void setting
+            .setDesc(contextRuleDesc[rule.type][1])
+            .addDropdown(dropdown =>
+              dropdown
+                .addOptions(ruleTypeNames)
+                .setValue(rule.type)
+                .onChange(async value => {
+                  rule.type = value as ContextRuleType;
+                  await this.plugin.saveSettings();
+                  this.render();
+                }),
+            )
+            .addText(text =>
+              text.setValue(rule.value).onChange(async value => {
+                rule.value = value;
+                await this.plugin.saveSettings();
+              }),
+            )
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Remove rule')
+                .onClick(async () => {
+                  context.rules.splice(index, 1);
+                  await this.plugin.saveSettings();
+                  this.render();
+                }),
+            ),
+      ),
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.closeCallback();
+  }
+}
@@ -0,0 +1,197 @@
+import { IconName, ItemView, setIcon, Setting, WorkspaceLeaf } from 'obsidian';
+import MobilePlugin from '../main';
+import {
+  GestureCommand,
+  GestureHandler,
+  GestureInput,
+  GestureMatch,
+} from '../utils/gesture-handler';
+
+export const VIEW_TYPE_GESTURE_PRACTICE = 'gesture-practice';
+
+/** Size of the square the drawing and the template are fitted into. */
+const OVERLAY_SIZE = 200;
+
+/**
+ * View for practicing gestures without running their commands.
+ *
+ * Drawings on the practice pad go through dry-run recognition. The result
+ * shows which gesture matched and how confident the match was, and overlays
+ * the drawing on the closest template so the shape can be corrected. An
+ * optional target gesture turns it into a drill for learning a pack.
+ *
+ * @extends ItemView
+ */
+export class GesturePracticeLeaf extends ItemView {
+  private gestureHandler?: GestureHandler;
+  private target: GestureCommand | null = null;
+  private attempts = 0;
+  private hits = 0;
+  private resultEl!: HTMLElement;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: MobilePlugin,
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_GESTURE_PRACTICE;
+  }
+
+  getDisplayText(): string {
+    return 'Gesture practice';
+  }
+
+  getIcon(): IconName {
+    return 'dumbbell';
+  }
+
+  onOpen(): Promise<void> {
+    this.render();
+    return Promise.resolve();
+  }
+
+  onClose(): Promise<void> {
+    this.gestureHandler?.destroy();
+    return Promise.resolve();
+  }
+
+  render(): void {
+    const { contentEl } = this;
+    const { settings } = this.plugin;
+    this.gestureHandler?.destroy();
+    contentEl.empty();
+    contentEl.addClass('mobile-gesture-practice');
+
+    new Setting(contentEl)
+      .setName('Target gesture')
+      .setDesc('Pick a gesture to drill, or practice any of them.')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', 'Any gesture');
+        settings.gestureCommands.forEach(
+          (gc, index) => void dropdown.addOption(`${index}`, gc.name),
+        );
+        dropdown
+          .setValue(
+            this.target
+              ? `${settings.gestureCommands.indexOf(this.target)}`
+              : '',
+          )
+          .onChange(value => {
+            this.target =
+              value === '' ? null : settings.gestureCommands[Number(value)];
+            this.attempts = 0;
+            this.hits = 0;
+            this.render();
+          });
+      });
+
+    if (this.target) {
+      setIcon(
+        contentEl.createDiv('mobile-gesture-practice-target'),
+        GestureHandler.getGestureIcon(this.target),
+      );
+    }
+
+    const pad = contentEl.createDiv('mobile-gesture-practice-pad');
+    pad.createDiv({
+      cls: 'mobile-gesture-practice-hint',
+      text:
+        settings.gestureCommands.length === 0
+          ? 'No gestures configured yet'
+          : 'Draw a gesture here',
+    });
+    this.resultEl = contentEl.createDiv('mobile-gesture-practice-result');
+
+    this.gestureHandler = new GestureHandler(
+      this.app,
+      pad,
+      settings.gestureCommands,
+      (input, gestureCommand, candidates) =>
+        this.showResult(input, gestureCommand, candidates),
+      true,
+      settings.gestureThreshold,
+      settings.gestureStrokeTimeout,
+    ).setMovesElement(false);
+  }
+
+  private showResult(
+    input: GestureInput,
+    gestureCommand: GestureCommand | null,
+    candidates: GestureMatch[],
+  ): void {
+    const { resultEl } = this;
+    resultEl.empty();
+    const match =
+      candidates.find(c => c.gesture === gestureCommand) ?? candidates[0];
+
+    if (this.target) {
+      this.attempts++;
+      if (gestureCommand === this.target) this.hits++;
+    }
+
+    resultEl.createDiv({
+      cls: 'mobile-gesture-practice-match',
+      text: gestureCommand
+        ? `${gestureCommand.name} (${Math.round((match?.score ?? 0) * 100)}%)`
+        : 'Not recognized',
+    });
+    if (match) {
+      const threshold =
+        match.gesture.threshold ?? this.plugin.settings.gestureThreshold;
+      resultEl.createDiv({
+        cls: 'mobile-gesture-practice-detail',
+        text: gestureCommand
+          ? `Threshold ${Math.round(threshold * 100)}%`
+          : `Closest: ${match.gesture.name} (${Math.round(match.score * 100)}%, needs ${Math.round(threshold * 100)}%)`,
+      });
+    }
+    if (this.target) {
+      resultEl.createDiv({
+        cls: 'mobile-gesture-practice-detail',
+        text: `${gestureCommand === this.target ? 'Hit' : 'Miss'} · ${this.hits}/${this.attempts} on target`,
+      });
+    }
+
+    this.drawOverlay(
+      resultEl,
+      input,
+      match?.sample ? GestureHandler.toInput(match.sample) : null,
+    );
+
+    // Runner-up scores show which gestures are easily confused
+    const list = resultEl.createEl('ol', 'mobile-gesture-practice-candidates');
+    candidates.slice(0, 3).forEach(c =>
+      list.createEl('li', {
+        text: `${c.gesture.name}: ${Math.round(c.score * 100)}%`,
+      }),
+    );
+  }
+
+  /**
+   * Draws the drawing over the template, each fitted to the same square as
+   * the recognizer ignores size and position.
+   */
+  private drawOverlay(
+    parentEl: HTMLElement,
+    input: GestureInput,
+    template: GestureInput | null,
+  ): void {
+    const svg = parentEl.createSvg('svg', {
+      cls: 'mobile-gesture-practice-overlay',
+      attr: { viewBox: `0 0 ${OVERLAY_SIZE} ${OVERLAY_SIZE}` },
+    });
+    const layers: [GestureInput | null, string][] = [
+      [template, 'mod-template'],
+      [input, 'mod-input'],
+    ];
+    for (const [shape, cls] of layers) {
+      if (!shape) continue;
+      GestureHandler.fitStrokes(shape.strokes, OVERLAY_SIZE, 20).forEach(
+        points => svg.createSvg('polyline', { cls, attr: { points } }),
+      );
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { App, Modal, Setting, SettingGroup } from 'obsidian';
+import { SortableList } from '../components/SortableList';
+import {
+  describeMacroStep,
+  MacroCondition,
+  macroConditionDesc,
+  MacroConfig,
+  MacroStep,
+  registerMacroCommand,
+} from '../features/macros';
+import MobilePlugin from '../main';
+import { CommandSuggestModal } from '../settings';
+
+/**
+ * Modal editor for a single macro.
+ *
+ * Provides an interface for:
+ * - Renaming the macro (and its command)
+ * - Adding command, delay and text steps
+ * - Reordering steps via drag-and-drop
+ * - Setting a condition per step
+ *
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class MacroEditor extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private macro: MacroConfig,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl, macro } = this;
+    contentEl.empty();
+    this.setTitle('Edit macro');
+
+    new SettingGroup(contentEl)
+      .addSetting(
+        setting =>
+          void setting.setName('Name').addText(text =>
+            text.setValue(macro.name).onChange(async value => {
+              macro.name = value;
+              registerMacroCommand(this.plugin, macro);
+              await this.plugin.saveSettings();
+            }),
+          ),
+      )
+      .addSetting(
+        setting =>
+          void setting
+            .setName('Add step')
+            .addButton(button =>
+              button.setButtonText('Command').onClick(() => {
+                new CommandSuggestModal(this.app, command =>
+                  this.addStep({ type: 'command', commandId: command.id }),
+                ).open();
+              }),
+            )
+            .addButton(button =>
+              button
+                .setButtonText('Delay')
+                .onClick(() => this.addStep({ type: 'delay', ms: 500 })),
+            )
+            .addButton(button =>
+              button
+                .setButtonText('Text')
+                .onClick(() => this.addStep({ type: 'text', text: '' })),
+            ),
+      );
+
+    new SortableList(contentEl.createDiv('setting-group'), macro.steps)
+      .onUpdate(() => void this.plugin.saveSettings())
+      .useSetting((setting, step, index) => {
+        setting
+          .setName(describeMacroStep(this.app, step))
+          .then(setting => this.renderStepInput(setting, step))
+          .addDropdown(dropdown =>
+            dropdown
+              .addOptions(macroConditionDesc)
+              .setValue(step.condition ?? 'always')
+              .onChange(async value => {
+                step.condition =
+                  value === 'always' ? undefined : (value as MacroCondition);
+                await this.plugin.saveSettings();
+              }),
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon('trash')
+              .setTooltip('Remove step')
+              .onClick(async () => {
+                macro.steps.splice(index, 1);
+                await this.plugin.saveSettings();
+                this.render();
+              }),
+          );
+      });
+  }
+
+  private renderStepInput(setting: Setting, step: MacroStep) {
+    switch (step.type) {
+      case 'command':
+        setting.setDesc(step.commandId).addExtraButton(btn =>
+          btn
+            .setIcon('pencil')
+            .setTooltip('Change command')
+            .onClick(() => {
+              new CommandSuggestModal(this.app, command => {
+                void (async () => {
+                  step.commandId = command.id;
+                  await this.plugin.saveSettings();
+                  this.render();
+                })();
+              }).open();
+            }),
+        );
+        break;
+      case 'delay':
+        setting.addText(text =>
+          text
+            .setPlaceholder('Milliseconds')
+            .setValue(String(step.ms))
+            .onChange(async value => {
+              step.ms = Math.max(0, Number(value) || 0);
+              await this.plugin.saveSettings();
+            }),
+        );
+        break;
+      case 'text':
+        setting.addText(text =>
+          text
+            .setPlaceholder('Text to insert')
+            .setValue(step.text)
+            .onChange(async value => {
+              step.text = value;
+              await this.plugin.saveSettings();
+            }),
+        );
+        break;
+    }
+  }
+
+  private addStep(step: MacroStep) {
+    void (async () => {
+      this.macro.steps.push(step);
+      await this.plugin.saveSettings();
+      this.render();
+    })();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.closeCallback();
+  }
+}
@@ -0,0 +1,168 @@
+import { App, Modal, SettingGroup } from 'obsidian';
+import { SortableList } from '../components/SortableList';
+import {
+  RADIAL_MAX_SLOTS,
+  RADIAL_MIN_SLOTS,
+  RadialSlot,
+} from '../features/radial-menu';
+import MobilePlugin from '../main';
+import { CommandSuggestModal, IconSuggestModal } from '../settings';
+
+/**
+ * Modal editor for the slots of the radial menu, or of one slot's sub-ring.
+ *
+ * Provides an interface for:
+ * - Adding command slots and sub-rings, up to the ring's capacity
+ * - Reordering slots via drag-and-drop (the first slot points up)
+ * - Changing a slot's command and icon
+ *
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class RadialMenuEditor extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private slots: RadialSlot[],
+    private isSubRing = false,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl, slots } = this;
+    contentEl.empty();
+    this.setTitle(this.isSubRing ? 'Edit sub-ring' : 'Edit radial menu');
+
+    const isFull = slots.length >= RADIAL_MAX_SLOTS;
+    new SettingGroup(contentEl).addSetting(setting => {
+      setting
+        .setName('Add slot')
+        .setDesc(
+          `${slots.length} of ${RADIAL_MAX_SLOTS} slots. The ring is spaced for at least ${RADIAL_MIN_SLOTS}.`,
+        )
+        .addButton(button =>
+          button
+            .setButtonText('Command')
+            .setDisabled(isFull)
+            .onClick(() => {
+              new CommandSuggestModal(this.app, command =>
+                this.addSlot({ commandId: command.id }),
+              ).open();
+            }),
+        );
+      if (!this.isSubRing) {
+        setting.addButton(button =>
+          button
+            .setButtonText('Sub-ring')
+            .setDisabled(isFull)
+            .onClick(() => {
+              const slot: RadialSlot = { commandId: '', slots: [] };
+              this.addSlot(slot);
+              this.openSubRing(slot);
+            }),
+        );
+      }
+    });
+
+    new SortableList(contentEl.createDiv('setting-group'), slots)
+      .onUpdate(() => void this.plugin.saveSettings())
+      .useSetting((setting, slot, index) => {
+        const command = this.app.commands?.commands[slot.commandId];
+        setting
+          .setName(command?.name || slot.commandId || 'Sub-ring only')
+          .setDesc(
+            slot.slots?.length
+              ? `${slot.slots.length} slots in sub-ring`
+              : slot.commandId,
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon(
+                slot.icon ||
+                  this.plugin.settings.commandIcons[slot.commandId] ||
+                  command?.icon ||
+                  'circle-question-mark',
+              )
+              .setTooltip('Change icon')
+              .onClick(() => {
+                new IconSuggestModal(this.app, icon => {
+                  void (async () => {
+                    slot.icon = icon;
+                    await this.plugin.saveSettings();
+                    this.render();
+                  })();
+                }).open();
+              }),
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon('pencil')
+              .setTooltip('Change command')
+              .onClick(() => {
+                new CommandSuggestModal(this.app, command => {
+                  void (async () => {
+                    slot.commandId = command.id;
+                    await this.plugin.saveSettings();
+                    this.render();
+                  })();
+                }).open();
+              }),
+          );
+        if (!this.isSubRing) {
+          setting.addExtraButton(btn =>
+            btn
+              .setIcon('circle-dot')
+              .setTooltip('Edit sub-ring')
+              .onClick(() => this.openSubRing(slot)),
+          );
+        }
+        setting.addExtraButton(btn =>
+          btn
+            .setIcon('trash')
+            .setTooltip('Remove slot')
+            .onClick(async () => {
+              slots.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.render();
+            }),
+        );
+      });
+  }
+
+  private openSubRing(slot: RadialSlot) {
+    new RadialMenuEditor(this.app, this.plugin, (slot.slots ??= []), true)
+      .onDone(() => {
+        // A sub-ring slot without a command is useless once emptied
+        if (!slot.slots?.length) delete slot.slots;
+        if (!slot.commandId && !slot.slots) this.slots.remove(slot);
+        void this.plugin.saveSettings();
+        this.render();
+      })
+      .open();
+  }
+
+  private addSlot(slot: RadialSlot) {
+    void (async () => {
+      this.slots.push(slot);
+      await this.plugin.saveSettings();
+      this.render();
+    })();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.closeCallback();
+  }
+}
@@ -109,6 +109,14 @@ export class SearchLeaf extends ItemView {
       () => void this.update(this.searchInput.getValue()),
     );
 
+    // Closing the keyboard leaves the input focused, so tapping it again
+    // wouldn't bring the keyboard back. Other search leaves keep their focus.
+    this.plugin.api.on(this, 'keyboard-close', () => {
+      if (this.app.workspace.getActiveViewOfType(SearchLeaf) === this) {
+        this.searchInput.blur();
+      }
+    });
+
     this.addChild(this.resultsCtr);
     this.addChild(this.filesCache);
     this.setupIntersectionObserver();
@@ -0,0 +1,204 @@
+import { App, Modal, Setting, SettingGroup } from 'obsidian';
+import {
+  defaultToolbarButtonActions,
+  registerToolbarButtonCommand,
+  ToolbarButton,
+  ToolbarButtonType,
+  toolbarButtonTypeDesc,
+} from '../features/toolbar-buttons';
+import MobilePlugin from '../main';
+import { CommandSuggestModal } from '../settings';
+
+/**
+ * Modal editor for a toolbar button that isn't a plain command.
+ *
+ * Provides an interface for:
+ * - Renaming the button (and its command)
+ * - Switching between button types
+ * - Editing the text, link, note, sub-toolbar or commands it uses
+ *
+ * The button's icon is changed from the toolbar editor like any command's.
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class ToolbarButtonEditor extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private button: ToolbarButton,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl, button } = this;
+    contentEl.empty();
+    this.setTitle('Edit toolbar button');
+
+    const group = new SettingGroup(contentEl)
+      .addSetting(
+        setting =>
+          void setting.setName('Name').addText(text =>
+            text.setValue(button.name).onChange(async value => {
+              button.name = value;
+              await this.plugin.saveSettings();
+            }),
+          ),
+      )
+      .addSetting(
+        setting =>
+          void setting.setName('Type').addDropdown(dropdown =>
+            dropdown
+              .addOptions(toolbarButtonTypeDesc)
+              .setValue(button.type)
+              .onChange(value => this.setType(value as ToolbarButtonType)),
+          ),
+      );
+    group.addSetting(setting => this.renderAction(setting));
+  }
+
+  private renderAction(setting: Setting) {
+    const { button } = this;
+    const save = () => void this.plugin.saveSettings();
+    switch (button.type) {
+      case 'snippet':
+        setting
+          .setName('Text')
+          .setDesc(
+            'Use {{cursor}} for where the cursor ends up and {{selection}} for the selected text',
+          )
+          .addTextArea(text =>
+            text.setValue(button.text).onChange(value => {
+              button.text = value;
+              save();
+            }),
+          );
+        break;
+      case 'wrap':
+        setting
+          .setName('Before and after')
+          .addText(text =>
+            text
+              .setPlaceholder('Before')
+              .setValue(button.prefix)
+              .onChange(value => {
+                button.prefix = value;
+                save();
+              }),
+          )
+          .addText(text =>
+            text
+              .setPlaceholder('After')
+              .setValue(button.suffix)
+              .onChange(value => {
+                button.suffix = value;
+                save();
+              }),
+          );
+        break;
+      case 'uri':
+        setting
+          .setName('Link')
+          .setDesc('A web address or a link to another app')
+          .addText(text =>
+            text.setValue(button.uri).onChange(value => {
+              button.uri = value;
+              save();
+            }),
+          );
+        break;
+      case 'note':
+        setting
+          .setName('Note')
+          .setDesc('Name or path of the note to open')
+          .addText(text =>
+            text.setValue(button.path).onChange(value => {
+              button.path = value;
+              save();
+            }),
+          );
+        break;
+      case 'toolbar':
+        setting
+          .setName('Toolbar')
+          .setDesc('Toolbar whose commands open in a menu')
+          .addDropdown(dropdown =>
+            dropdown
+              .addOption('', 'Select a toolbar')
+              .addOptions(
+                Object.fromEntries(
+                  this.plugin.settings.toolbars.map(t => [t.id, t.name]),
+                ),
+              )
+              .setValue(button.toolbarId)
+              .onChange(value => {
+                button.toolbarId = value;
+                save();
+              }),
+          );
+        break;
+      case 'toggle':
+        setting
+          .setName('Commands')
+          .setDesc(
+            'Command to run when turning on, and optionally a different one when turning off',
+          )
+          .addButton(btn =>
+            btn
+              .setButtonText(button.onCommand || 'On')
+              .onClick(() => this.pickCommand('onCommand')),
+          )
+          .addButton(btn =>
+            btn
+              .setButtonText(button.offCommand || 'Off')
+              .onClick(() => this.pickCommand('offCommand')),
+          );
+        break;
+    }
+  }
+
+  private pickCommand(key: 'onCommand' | 'offCommand') {
+    new CommandSuggestModal(this.app, command => {
+      void (async () => {
+        if (this.button.type !== 'toggle') return;
+        this.button[key] = command.id;
+        await this.plugin.saveSettings();
+        this.render();
+      })();
+    }).open();
+  }
+
+  /**
+   * Replaces the action while keeping the button's id, so toolbars keep
+   * referring to it.
+   */
+  private setType(type: ToolbarButtonType) {
+    void (async () => {
+      const { id, name } = this.button;
+      const button = this.button as Record<string, unknown>;
+      Object.keys(button).forEach(key => delete button[key]);
+      Object.assign(button, { id, name }, defaultToolbarButtonActions[type]);
+      registerToolbarButtonCommand(this.plugin, this.button);
+      await this.plugin.saveSettings();
+      this.render();
+    })();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Renaming re-registers the command once rather than on every keystroke
+    registerToolbarButtonCommand(this.plugin, this.button);
+    this.closeCallback();
+  }
+}
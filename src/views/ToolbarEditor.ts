@@ -1,6 +1,17 @@
 import { Modal, App, SettingGroup } from 'obsidian';
 import { SortableList } from '../components/SortableList';
+import {
+  defaultToolbarButtonActions,
+  describeToolbarButton,
+  findToolbarButton,
+  isCommandReferenced,
+  registerToolbarButtonCommand,
+  ToolbarButton,
+  toolbarButtonCommandId,
+} from '../features/toolbar-buttons';
 import MobilePlugin from '../main';
+import { ToolbarButtonEditor } from './ToolbarButtonEditor';
+import { ToolbarEntryActionsEditor } from './ToolbarEntryActionsEditor';
 import {
   ToolbarConfig,
   ContextSelectionModal,
@@ -13,8 +24,10 @@ import {
  *
  * Provides a full-featured interface for:
  * - Editing toolbar name
- * - Adding/removing commands
+ * - Adding/removing commands, and buttons that insert text, wrap the
+ *   selection, open links, notes or sub-toolbars, or toggle
  * - Reordering commands via drag-and-drop
+ * - Setting long-press and swipe-up actions per entry
  * - Customizing command icons
  * - Managing context bindings
  * - Deleting toolbars
@@ -119,17 +132,37 @@ export class ToolbarEditor extends Modal {
       )
       .addSetting(
         setting =>
-          void setting.setName('Commands').addButton(button =>
-            button.setButtonText('Add').onClick(() => {
-              new CommandSuggestModal(this.app, command => {
-                void (async () => {
-                  toolbar.commands.push(command.id);
-                  await this.plugin.saveSettings();
-                  this.render();
-                })();
-              }).open();
-            }),
-          ),
+          void setting
+            .setName('Commands')
+            .addButton(button =>
+              button.setButtonText('Add').onClick(() => {
+                new CommandSuggestModal(this.app, command => {
+                  void (async () => {
+                    toolbar.commands.push(command.id);
+                    await this.plugin.saveSettings();
+                    this.render();
+                  })();
+                }).open();
+              }),
+            )
+            .addButton(button =>
+              button.setButtonText('Add button').onClick(async () => {
+                const toolbarButton: ToolbarButton = {
+                  id: `${Date.now()}`,
+                  name: 'New button',
+                  ...defaultToolbarButtonActions.snippet,
+                };
+                this.plugin.settings.toolbarButtons.push(toolbarButton);
+                registerToolbarButtonCommand(this.plugin, toolbarButton);
+                toolbar.commands.push(
+                  `mobile:${toolbarButtonCommandId(toolbarButton)}`,
+                );
+                await this.plugin.saveSettings();
+                new ToolbarButtonEditor(this.app, this.plugin, toolbarButton)
+                  .onDone(() => this.render())
+                  .open();
+              }),
+            ),
       )
       .addSetting(setting => {
         const el = setting.settingEl;
@@ -138,9 +171,13 @@ export class ToolbarEditor extends Modal {
         new SortableList(el, toolbar.commands).useSetting(
           (setting, cmdId, index) => {
             const command = this.app.commands?.findCommand?.(cmdId);
+            const toolbarButton = findToolbarButton(this.plugin, cmdId);
+            const actions = toolbar.actions?.[cmdId];
             setting
-              .setName(command?.name || cmdId)
-              .setDesc(cmdId)
+              .setName(toolbarButton?.name || command?.name || cmdId)
+              .setDesc(
+                toolbarButton ? describeToolbarButton(toolbarButton) : cmdId,
+              )
               .addExtraButton(btn =>
                 btn
                   .setIcon(
@@ -162,23 +199,74 @@ export class ToolbarEditor extends Modal {
               .addExtraButton(btn =>
                 btn
                   .setIcon('pencil')
-                  .setTooltip('Change command')
+                  .setTooltip(toolbarButton ? 'Edit button' : 'Change command')
                   .onClick(() => {
+                    if (toolbarButton) {
+                      new ToolbarButtonEditor(
+                        this.app,
+                        this.plugin,
+                        toolbarButton,
+                      )
+                        .onDone(() => this.render())
+                        .open();
+                      return;
+                    }
                     new CommandSuggestModal(this.app, command => {
                       void (async () => {
                         toolbar.commands[index] = command.id;
+                        // The entry keeps its secondary actions
+                        if (actions && toolbar.actions) {
+                          delete toolbar.actions[cmdId];
+                          toolbar.actions[command.id] = actions;
+                        }
                         await this.plugin.saveSettings();
                         this.render();
                       })();
                     }).open();
                   }),
               )
+              .addExtraButton(btn =>
+                btn
+                  .setIcon('pointer')
+                  .setTooltip('Long-press and swipe actions')
+                  .then(btn =>
+                    btn.extraSettingsEl.toggleClass('is-active', !!actions),
+                  )
+                  .onClick(() =>
+                    new ToolbarEntryActionsEditor(
+                      this.app,
+                      this.plugin,
+                      toolbar,
+                      cmdId,
+                    )
+                      .onDone(() => this.render())
+                      .open(),
+                  ),
+              )
               .addExtraButton(btn =>
                 btn
                   .setIcon('trash')
                   .setTooltip('Remove command')
                   .onClick(async () => {
                     toolbar.commands.splice(index, 1);
+                    if (!toolbar.commands.includes(cmdId)) {
+                      delete toolbar.actions?.[cmdId];
+                    }
+                    // Buttons only exist for toolbars, so drop unused ones
+                    // unless something else still runs their command
+                    const { settings } = this.plugin;
+                    if (
+                      toolbarButton &&
+                      !settings.toolbars.some(t =>
+                        t.commands.includes(cmdId),
+                      ) &&
+                      !isCommandReferenced(this.plugin, cmdId)
+                    ) {
+                      settings.toolbarButtons.remove(toolbarButton);
+                      this.plugin.removeCommand(
+                        toolbarButtonCommandId(toolbarButton),
+                      );
+                    }
                     await this.plugin.saveSettings();
                     this.render();
                   }),
@@ -231,6 +319,7 @@ export class ToolbarEditor extends Modal {
               btn.setIcon('plus').onClick(() => {
                 new ContextSelectionModal(
                   this.app,
+                  this.plugin,
                   binding => {
                     void (async () => {
                       binding.toolbarId = toolbar.id;
@@ -0,0 +1,133 @@
+import { App, Modal, SettingGroup } from 'obsidian';
+import MobilePlugin from '../main';
+import {
+  CommandSuggestModal,
+  ToolbarConfig,
+  ToolbarEntryActions,
+} from '../settings';
+
+/**
+ * Modal editor for the secondary actions of one toolbar entry.
+ *
+ * Provides an interface for:
+ * - Choosing the command run on long-press, or several to pick from
+ * - Choosing the command run when swiping up on the button
+ *
+ * Changes are saved automatically as they're made.
+ *
+ * @extends Modal
+ */
+export class ToolbarEntryActionsEditor extends Modal {
+  closeCallback: () => void = () => {};
+  onDone(closeCallback: () => void) {
+    this.closeCallback = closeCallback;
+    return this;
+  }
+
+  constructor(
+    public app: App,
+    private plugin: MobilePlugin,
+    private toolbar: ToolbarConfig,
+    private commandId: string,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    const commandName = (id: string) =>
+      this.app.commands?.findCommand?.(id)?.name || id;
+    this.setTitle(`Actions of ${commandName(this.commandId)}`);
+    const actions = this.toolbar.actions?.[this.commandId] ?? {};
+
+    const longPress = new SettingGroup(contentEl)
+      .setHeading('Long press')
+      .addSetting(
+        setting =>
+          void setting
+            .setDesc(
+              'A single command runs directly; several open in a menu to pick from',
+            )
+            .addButton(button =>
+              button.setButtonText('Add').onClick(() =>
+                new CommandSuggestModal(this.app, command =>
+                  this.update(actions => {
+                    actions.longPress = [
+                      ...(actions.longPress ?? []),
+                      command.id,
+                    ];
+                  }),
+                ).open(),
+              ),
+            ),
+      );
+    actions.longPress?.forEach((id, index) =>
+      longPress.addSetting(
+        setting =>
+          void setting
+            .setName(commandName(id))
+            .setDesc(id)
+            .addExtraButton(btn =>
+              btn
+                .setIcon('trash')
+                .setTooltip('Remove command')
+                .onClick(() =>
+                  this.update(actions => actions.longPress?.splice(index, 1)),
+                ),
+            ),
+      ),
+    );
+
+    new SettingGroup(contentEl).setHeading('Swipe up').addSetting(
+      setting =>
+        void setting
+          .setDesc('Runs instead of expanding the toolbar')
+          .addButton(button =>
+            button
+              .setButtonText(
+                actions.swipeUp ? commandName(actions.swipeUp) : 'Choose',
+              )
+              .onClick(() =>
+                new CommandSuggestModal(this.app, command =>
+                  this.update(actions => (actions.swipeUp = command.id)),
+                ).open(),
+              ),
+          )
+          .addExtraButton(btn =>
+            btn
+              .setIcon('trash')
+              .setTooltip('Remove command')
+              .onClick(() => this.update(actions => delete actions.swipeUp)),
+          ),
+    );
+  }
+
+  /**
+   * Changes the entry's actions, dropping them once none are left, then
+   * saves and re-renders.
+   */
+  private update(change: (actions: ToolbarEntryActions) => void) {
+    void (async () => {
+      const { toolbar, commandId } = this;
+      toolbar.actions ??= {};
+      const actions = (toolbar.actions[commandId] ??= {});
+      change(actions);
+      if (!actions.longPress?.length) delete actions.longPress;
+      if (!actions.swipeUp && !actions.longPress) {
+        delete toolbar.actions[commandId];
+      }
+      await this.plugin.saveSettings();
+      this.render();
+    })();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.closeCallback();
+  }
+}